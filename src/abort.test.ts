@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { AbortGroup } from './abort';
+import { AbortError } from './errors';
+import { createDeferred } from './utils';
+
+describe('AbortGroup', () => {
+  it('keeps the work running until every caller aborts', async () => {
+    const group = new AbortGroup();
+    const work = createDeferred<number>();
+    const first = new AbortController();
+    const second = new AbortController();
+
+    const a = group.join(work.promise, first.signal);
+    const b = group.join(work.promise, second.signal);
+
+    first.abort();
+    await expect(a).rejects.toBeInstanceOf(AbortError);
+    expect(group.aborted).toBe(false);
+
+    second.abort();
+    await expect(b).rejects.toBeInstanceOf(AbortError);
+    expect(group.aborted).toBe(true);
+    expect(group.signal.aborted).toBe(true);
+  });
+
+  it('gives the result to callers that did not abort', async () => {
+    const group = new AbortGroup();
+    const work = createDeferred<number>();
+    const controller = new AbortController();
+
+    const aborted = group.join(work.promise, controller.signal);
+    const waiting = group.join(work.promise, new AbortController().signal);
+    controller.abort();
+    work.resolve(42);
+
+    await expect(aborted).rejects.toBeInstanceOf(AbortError);
+    await expect(waiting).resolves.toBe(42);
+    expect(group.aborted).toBe(false);
+  });
+
+  it('never aborts while a caller without a signal waits', async () => {
+    const group = new AbortGroup();
+    const work = createDeferred<number>();
+    const controller = new AbortController();
+
+    const unsignalled = group.join(work.promise);
+    group.join(work.promise, controller.signal).catch(() => undefined);
+    controller.abort();
+    expect(group.aborted).toBe(false);
+
+    work.resolve(1);
+    await expect(unsignalled).resolves.toBe(1);
+  });
+
+  it('rejects callers whose signal already aborted', async () => {
+    const group = new AbortGroup();
+    const controller = new AbortController();
+    controller.abort();
+
+    const work = createDeferred<number>();
+    await expect(group.join(work.promise, controller.signal)).rejects.toBeInstanceOf(AbortError);
+    expect(group.aborted).toBe(true);
+  });
+});
@@ -0,0 +1,55 @@
+import { AbortError } from './errors';
+import { raceSignal } from './utils';
+
+/**
+ * Cancellation of work shared by several callers
+ *
+ * Every caller joins with its own signal. A caller that aborts only stops
+ * waiting - the shared signal aborts once every caller has aborted.
+ * Callers without a signal keep the work running until it settles.
+ */
+export class AbortGroup {
+  private readonly controller = new AbortController();
+  private members = 0;
+
+  /**
+   * Signal for the shared work
+   */
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  /**
+   * Whether every caller has left (the shared work is cancelled)
+   */
+  get aborted(): boolean {
+    return this.controller.signal.aborted;
+  }
+
+  /**
+   * Wait for the shared work as one caller
+   * @throws AbortError as soon as the caller's signal aborts
+   */
+  join<T>(work: Promise<T>, signal?: AbortSignal): Promise<T> {
+    this.members++;
+    if (!signal) return work;
+
+    if (signal.aborted) {
+      // Nobody else may wait on the work - keep its failure handled
+      work.catch(() => undefined);
+      this.leave();
+      return Promise.reject(new AbortError(signal.reason));
+    }
+
+    const onAbort = () => this.leave();
+    signal.addEventListener('abort', onAbort, { once: true });
+    const cleanup = () => signal.removeEventListener('abort', onAbort);
+    work.then(cleanup, cleanup);
+
+    return raceSignal(work, signal);
+  }
+
+  private leave(): void {
+    if (--this.members === 0) this.controller.abort();
+  }
+}
@@ -0,0 +1,168 @@
+import { describe, it, expect, vi, afterEach, type Mock } from 'vitest';
+import { ExtensionBackend, OracleBackend } from './backends';
+import { ExtensionError, NetworkError, RateLimitError, TimeoutError } from './errors';
+import type { BackendQuery, FetchFunction, NostrWoTExtension } from './types';
+
+const ROOT = 'a'.repeat(64);
+const TARGET = 'b'.repeat(64);
+const query: BackendQuery = { root: ROOT, maxHops: 3, timeout: 1000 };
+
+function respond(...responses: Array<() => Response>): Mock<FetchFunction> {
+  const fetch = vi.fn<FetchFunction>();
+  for (const response of responses) {
+    fetch.mockImplementationOnce(async () => response());
+  }
+  return fetch;
+}
+
+const ok = () => new Response(JSON.stringify({ distance: 2 }), { status: 200 });
+const status = (code: number, headers?: Record<string, string>) => () =>
+  new Response('', { status: code, statusText: 'Error', headers });
+
+describe('OracleBackend retries', () => {
+  const retry = { baseDelay: 1, maxDelay: 50, jitter: false };
+
+  it('retries rate limits after Retry-After', async () => {
+    const fetch = respond(status(429, { 'Retry-After': '0' }), ok);
+    const backend = new OracleBackend({ fetch, retry });
+
+    await expect(backend.getDistance(TARGET, query)).resolves.toBe(2);
+    expect(fetch.mock.calls).toHaveLength(2);
+  });
+
+  it('throws RateLimitError with retryAfter once attempts run out', async () => {
+    const limited = status(429, { 'Retry-After': '0' });
+    const fetch = respond(limited, limited);
+    const backend = new OracleBackend({ fetch, retry: { ...retry, maxAttempts: 2 } });
+
+    const error = await backend.getDistance(TARGET, query).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error).toBeInstanceOf(NetworkError);
+    expect(error).toMatchObject({ statusCode: 429, retryAfter: 0 });
+    expect(fetch.mock.calls).toHaveLength(2);
+  });
+
+  it('gives up when Retry-After exceeds maxDelay', async () => {
+    const fetch = respond(status(429, { 'Retry-After': '60' }), ok);
+    const backend = new OracleBackend({ fetch, retry });
+
+    await expect(backend.getDistance(TARGET, query)).rejects.toMatchObject({
+      name: 'RateLimitError',
+      retryAfter: 60000,
+    });
+    expect(fetch.mock.calls).toHaveLength(1);
+  });
+
+  it('backs off on retryable statuses only', async () => {
+    const retried = respond(status(503), status(502), ok);
+    await expect(
+      new OracleBackend({ fetch: retried, retry }).getDistance(TARGET, query)
+    ).resolves.toBe(2);
+    expect(retried.mock.calls).toHaveLength(3);
+
+    const rejected = respond(status(400), ok);
+    await expect(
+      new OracleBackend({ fetch: rejected, retry }).getDistance(TARGET, query)
+    ).rejects.toMatchObject({ name: 'NetworkError', statusCode: 400 });
+    expect(rejected.mock.calls).toHaveLength(1);
+  });
+
+  it('does not retry with retry: false', async () => {
+    const fetch = respond(status(503), ok);
+    const backend = new OracleBackend({ fetch, retry: false });
+
+    await expect(backend.getDistance(TARGET, query)).rejects.toBeInstanceOf(NetworkError);
+    expect(fetch.mock.calls).toHaveLength(1);
+  });
+});
+
+describe('ExtensionBackend', () => {
+  function stubExtension(methods: Partial<NostrWoTExtension>) {
+    const extension = { getMyPubkey: async () => ROOT, ...methods };
+    vi.stubGlobal('window', { nostr: { wot: extension } });
+    return extension;
+  }
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('times out calls the extension never answers', async () => {
+    vi.useFakeTimers();
+    stubExtension({ getDistance: () => new Promise<number | null>(() => undefined) });
+    const backend = new ExtensionBackend({ timeout: 200 });
+
+    const distance = backend.getDistance(TARGET, query).catch((e: unknown) => e);
+    await vi.advanceTimersByTimeAsync(200);
+
+    const error = await distance;
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect(error).toMatchObject({
+      timeout: 200,
+      message: 'Extension getDistance timed out after 200ms',
+    });
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('uses the query timeout without a backend timeout', async () => {
+    vi.useFakeTimers();
+    stubExtension({ getTrustScore: () => new Promise<number>(() => undefined) });
+    const backend = new ExtensionBackend();
+
+    const score = backend.getTrustScore(TARGET, query).catch((e: unknown) => e);
+    await vi.advanceTimersByTimeAsync(query.timeout);
+    expect(await score).toMatchObject({ name: 'TimeoutError', timeout: query.timeout });
+  });
+
+  it('wraps what the extension throws in an ExtensionError', async () => {
+    const cause = new Error('graph not synced');
+    stubExtension({
+      getDistance: async () => {
+        throw cause;
+      },
+      getTrustScore: () => {
+        throw 'boom';
+      },
+    });
+    const backend = new ExtensionBackend();
+
+    const error = await backend.getDistance(TARGET, query).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(ExtensionError);
+    expect(error).toMatchObject({
+      method: 'getDistance',
+      cause,
+      message: 'Extension getDistance failed: graph not synced',
+    });
+    await expect(backend.getTrustScore(TARGET, query)).rejects.toThrow(
+      'Extension getTrustScore failed: boom'
+    );
+  });
+
+  it('probes the methods of each injected extension', async () => {
+    stubExtension({ version: '0.3.0', getDistance: async () => 2 });
+    const backend = new ExtensionBackend();
+
+    expect(backend.getCapabilities()).toEqual({
+      version: '0.3.0',
+      methods: ['getDistance', 'getMyPubkey'],
+    });
+    expect(backend.supports('getDistance')).toBe(true);
+    expect(backend.supports('getDistanceBatch')).toBe(false);
+    await expect(backend.getDistanceBatch([TARGET], {}, query)).rejects.toThrow(
+      'not supported by this extension version'
+    );
+
+    // A reloaded extension is probed again
+    stubExtension({ getDistance: async () => 2, getDistanceBatch: async () => ({}) });
+    expect(backend.getCapabilities()).toEqual({
+      version: null,
+      methods: ['getDistance', 'getDistanceBatch', 'getMyPubkey'],
+    });
+    expect(backend.supports('getDistanceBatch')).toBe(true);
+
+    vi.unstubAllGlobals();
+    expect(backend.getCapabilities()).toBeNull();
+    expect(backend.supports('getDistance')).toBe(false);
+  });
+});
@@ -0,0 +1,828 @@
+import type {
+  BackendKind,
+  BackendQuery,
+  BatchResult,
+  DistanceBatchOptions,
+  DistanceResult,
+  FollowersPage,
+  FollowersQuery,
+  GraphStats,
+  NostrWindow,
+  NostrWoTExtension,
+  ExtensionBackendOptions,
+  ExtensionCapabilities,
+  ExtensionMethod,
+  BackendMethod,
+  OracleBackendOptions,
+  PathQuery,
+  RankingAlgorithm,
+  RankingConfig,
+  FetchFunction,
+  TransportInterceptors,
+  RetryOptions,
+  ScoringConfig,
+  WoTBackend,
+} from './types';
+import type { LocalGraph } from './graph';
+import type { Limiter } from './limiter';
+import {
+  WoTError,
+  NetworkError,
+  NotFoundError,
+  TimeoutError,
+  ValidationError,
+  RateLimitError,
+  AbortError,
+  ExtensionError,
+  BatchError,
+} from './errors';
+import {
+  DEFAULT_ORACLE,
+  DEFAULT_RETRY,
+  DEFAULT_TIMEOUT,
+  DEFAULT_BATCH_CONCURRENCY,
+  isValidOracleUrl,
+  fetchWithTimeout,
+  chunk,
+  settleAll,
+  toError,
+  delay,
+  throwIfAborted,
+  raceSignal,
+  backoffDelay,
+  parseRetryAfter,
+} from './utils';
+import { computeTrustScore, resolveScoringConfig } from './scoring';
+
+/**
+ * Entry of an oracle /batch response
+ */
+interface OracleBatchItem {
+  pubkey: string;
+  distance: number | null;
+  paths?: number;
+  mutual?: boolean;
+}
+
+/**
+ * Methods of the extension API, probed by ExtensionBackend
+ */
+const EXTENSION_METHODS: ExtensionMethod[] = [
+  'getDistance',
+  'isInMyWoT',
+  'getDistanceBetween',
+  'getTrustScore',
+  'getDetails',
+  'getConfig',
+  'getDistanceBatch',
+  'getTrustScoreBatch',
+  'filterByWoT',
+  'getMyPubkey',
+  'isConfigured',
+  'getFollows',
+  'getCommonFollows',
+  'getStats',
+  'getPath',
+];
+
+/**
+ * Backend for the browser extension (window.nostr.wot)
+ *
+ * Always reads a fresh reference from `window.nostr.wot` to handle
+ * extension reloads. The extension only answers for its own user,
+ * so `query.root` is ignored.
+ */
+export class ExtensionBackend implements WoTBackend {
+  readonly kind: BackendKind = 'extension';
+  readonly name = 'extension';
+  readonly fixedRoot = true;
+  private pubkey: string | null = null;
+  private readonly timeout: number | undefined;
+  private probed: { ext: NostrWoTExtension; capabilities: ExtensionCapabilities } | null = null;
+
+  constructor(options: ExtensionBackendOptions = {}) {
+    this.timeout = options.timeout;
+  }
+
+  /**
+   * Checks if browser extension is available and returns it
+   * Simply checks window.nostr.wot - extension auto-injects when enabled
+   */
+  getExtension(): NostrWoTExtension | null {
+    // Check if running in browser
+    if (typeof window === 'undefined') return null;
+
+    return (window as NostrWindow).nostr?.wot ?? null;
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return this.getExtension() !== null;
+  }
+
+  /**
+   * Version and methods of the current extension build
+   * Probed once per extension instance (a reload injects a new one).
+   * @returns Capabilities, or null if the extension is not available
+   */
+  getCapabilities(): ExtensionCapabilities | null {
+    const ext = this.getExtension();
+    if (!ext) return null;
+
+    if (this.probed?.ext !== ext) {
+      const methods = EXTENSION_METHODS.filter((method) => typeof ext[method] === 'function');
+      const version = typeof ext.version === 'string' ? ext.version : null;
+      this.probed = { ext, capabilities: { version, methods } };
+    }
+    return this.probed.capabilities;
+  }
+
+  /**
+   * Older extension builds lack some methods - routing skips those
+   */
+  supports(method: BackendMethod): boolean {
+    // Every other backend method maps to the extension method of the same name
+    if (method === 'getPubkey') return true;
+    return this.getCapabilities()?.methods.includes(method as ExtensionMethod) ?? false;
+  }
+
+  async getPubkey(): Promise<string | null> {
+    const ext = this.getExtension();
+    if (!ext) return null;
+
+    // Get pubkey if not already fetched
+    if (!this.pubkey) {
+      try {
+        this.pubkey = await this.call(
+          'getMyPubkey',
+          { timeout: DEFAULT_TIMEOUT },
+          (wot) => wot.getMyPubkey()
+        );
+      } catch {
+        // Fall back to NIP-07 window.nostr.getPublicKey()
+        const win = window as NostrWindow;
+        if (win.nostr?.getPublicKey) {
+          try {
+            this.pubkey = await win.nostr.getPublicKey();
+          } catch {
+            // Ignore - will use fallback pubkey
+          }
+        }
+      }
+    }
+
+    return this.pubkey;
+  }
+
+  /**
+   * Forget the cached pubkey so the next getPubkey() asks the extension again
+   */
+  resetPubkey(): void {
+    this.pubkey = null;
+  }
+
+  async getDistance(target: string, query: BackendQuery): Promise<number | null> {
+    return this.call('getDistance', query, (ext) => ext.getDistance(target));
+  }
+
+  async isInMyWoT(target: string, query: BackendQuery): Promise<boolean> {
+    return this.call('isInMyWoT', query, (ext) => ext.isInMyWoT(target, query.maxHops));
+  }
+
+  async getDistanceBetween(
+    from: string,
+    to: string,
+    query: BackendQuery
+  ): Promise<number | null> {
+    return this.call('getDistanceBetween', query, (ext) => ext.getDistanceBetween(from, to));
+  }
+
+  async getTrustScore(target: string, query: BackendQuery): Promise<number | null> {
+    return this.call('getTrustScore', query, (ext) => ext.getTrustScore(target));
+  }
+
+  async getDetails(target: string, query: BackendQuery): Promise<DistanceResult | null> {
+    return this.call('getDetails', query, (ext) => ext.getDetails(target));
+  }
+
+  async getDistanceBatch(
+    targets: string[],
+    options: DistanceBatchOptions,
+    query: BackendQuery
+  ): Promise<Record<string, number | { hops: number; paths?: number; score?: number } | null>> {
+    // The signal cannot be passed on to the extension
+    const { includePaths, includeScores } = options;
+    return this.call('getDistanceBatch', query, (ext) =>
+      ext.getDistanceBatch(targets, { includePaths, includeScores })
+    );
+  }
+
+  async getTrustScoreBatch(
+    targets: string[],
+    query: BackendQuery
+  ): Promise<Record<string, number | null>> {
+    return this.call('getTrustScoreBatch', query, (ext) => ext.getTrustScoreBatch(targets));
+  }
+
+  async filterByWoT(pubkeys: string[], query: BackendQuery): Promise<string[]> {
+    return this.call('filterByWoT', query, (ext) => ext.filterByWoT(pubkeys, query.maxHops));
+  }
+
+  async getFollows(pubkey: string, query: BackendQuery): Promise<string[]> {
+    return this.call('getFollows', query, (ext) => ext.getFollows(pubkey));
+  }
+
+  async getCommonFollows(pubkey: string, query: BackendQuery): Promise<string[]> {
+    return this.call('getCommonFollows', query, (ext) => ext.getCommonFollows(pubkey));
+  }
+
+  async getPath(target: string, query: BackendQuery): Promise<string[] | null> {
+    return this.call('getPath', query, (ext) => ext.getPath(target));
+  }
+
+  async getStats(query: BackendQuery): Promise<GraphStats> {
+    return this.call('getStats', query, (ext) => ext.getStats());
+  }
+
+  /**
+   * Calls into the extension with a timeout
+   * Extension exceptions are wrapped in an ExtensionError naming the method.
+   * @param method - Extension method name (for errors)
+   * @param query - Timeout (unless the backend has its own) and abort signal
+   * @throws TimeoutError if the extension does not answer in time
+   */
+  async call<T>(
+    method: string,
+    query: Pick<BackendQuery, 'timeout' | 'signal'>,
+    run: (ext: NostrWoTExtension) => Promise<T>
+  ): Promise<T> {
+    const ext = this.require(method);
+    const timeout = this.timeout ?? query.timeout;
+
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+    const timedOut = new Promise<never>((_, reject) => {
+      timeoutId = setTimeout(
+        () => reject(new TimeoutError(timeout, `Extension ${method} timed out after ${timeout}ms`)),
+        timeout
+      );
+    });
+
+    try {
+      // A hung extension never settles - race it against the timeout
+      return await Promise.race([
+        raceSignal(Promise.resolve().then(() => run(ext)), query.signal),
+        timedOut,
+      ]);
+    } catch (error) {
+      if (error instanceof WoTError) throw error;
+      throw new ExtensionError(
+        method,
+        error instanceof Error ? error.message : String(error),
+        error
+      );
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  /**
+   * Gets the extension or throws if it disappeared mid-query
+   */
+  private require(method: string): NostrWoTExtension {
+    const ext = this.getExtension();
+    if (!ext) {
+      throw new ExtensionError(method, 'WoT extension is not available');
+    }
+    if (!this.getCapabilities()?.methods.includes(method as ExtensionMethod)) {
+      throw new ExtensionError(method, 'not supported by this extension version');
+    }
+    return ext;
+  }
+}
+
+/**
+ * Backend for the oracle HTTPS API
+ *
+ * The oracle does not compute trust scores, so scores are derived
+ * client-side from hops, path count and mutual flag. Transient failures
+ * are retried with exponential backoff, honoring Retry-After.
+ */
+export class OracleBackend implements WoTBackend {
+  readonly kind: BackendKind = 'oracle';
+  readonly name = 'oracle';
+  private readonly oracle: string;
+  private readonly scoring: ScoringConfig;
+  private readonly retry: Required<RetryOptions>;
+  private readonly fetch: FetchFunction | undefined;
+  private readonly interceptors: TransportInterceptors | undefined;
+  private readonly batchConcurrency: number;
+  private readonly limiter: Limiter | null;
+
+  constructor(options: OracleBackendOptions = {}) {
+    const oracle = options.oracle ?? DEFAULT_ORACLE;
+    if (!isValidOracleUrl(oracle)) {
+      throw new ValidationError('oracle must be a valid HTTPS URL', 'oracle');
+    }
+    this.oracle = oracle;
+    this.scoring = resolveScoringConfig(options.scoring);
+    this.retry =
+      options.retry === false
+        ? { ...DEFAULT_RETRY, maxAttempts: 1 }
+        : { ...DEFAULT_RETRY, ...options.retry };
+    this.fetch = options.fetch;
+    this.interceptors = options.interceptors;
+    this.batchConcurrency = options.batchConcurrency ?? DEFAULT_BATCH_CONCURRENCY;
+    this.limiter = options.limiter ?? null;
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return true;
+  }
+
+  async getDistance(target: string, query: BackendQuery): Promise<number | null> {
+    return this.getDistanceBetween(query.root, target, query);
+  }
+
+  async getDistanceBetween(
+    from: string,
+    to: string,
+    query: BackendQuery
+  ): Promise<number | null> {
+    interface DistanceResponse {
+      distance: number | null;
+    }
+
+    try {
+      const result = await this.apiRequest<DistanceResponse>(
+        `/distance/${from}/${to}?maxHops=${query.maxHops}`,
+        query
+      );
+      return result.distance;
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async getDetails(target: string, query: BackendQuery): Promise<DistanceResult | null> {
+    interface DetailsResponse {
+      hops: number;
+      paths: number;
+      bridges?: string[];
+      mutual?: boolean;
+    }
+
+    try {
+      const response = await this.apiRequest<DetailsResponse>(
+        `/details/${query.root}/${target}?maxHops=${query.maxHops}`,
+        query
+      );
+      // Oracle doesn't return score, so compute it client-side
+      return { ...response, score: computeTrustScore(response, this.scoring) };
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async getTrustScore(target: string, query: BackendQuery): Promise<number | null> {
+    const details = await this.getDetails(target, query);
+    return details ? details.score : null;
+  }
+
+  async getPaths(target: string, paths: PathQuery, query: BackendQuery): Promise<string[][]> {
+    interface PathsResponse {
+      paths: string[][];
+    }
+
+    const params = `maxHops=${query.maxHops}&limit=${paths.limit}&disjoint=${paths.disjoint}`;
+    try {
+      const response = await this.apiRequest<PathsResponse>(
+        `/paths/${query.root}/${target}?${params}`,
+        query
+      );
+      return response.paths.slice(0, paths.limit);
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  async getFollowers(
+    pubkey: string,
+    followers: FollowersQuery,
+    query: BackendQuery
+  ): Promise<FollowersPage> {
+    const params = new URLSearchParams({ limit: String(followers.limit) });
+    if (followers.withinHops !== null) {
+      params.set('root', query.root);
+      params.set('withinHops', String(followers.withinHops));
+    }
+    if (followers.cursor) params.set('cursor', followers.cursor);
+
+    try {
+      const response = await this.apiRequest<FollowersPage>(
+        `/followers/${pubkey}?${params}`,
+        query
+      );
+      return {
+        pubkeys: response.pubkeys.slice(0, followers.limit),
+        total: response.total,
+        nextCursor: response.nextCursor ?? null,
+      };
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        return { pubkeys: [], total: 0, nextCursor: null };
+      }
+      throw error;
+    }
+  }
+
+  async getDistanceBatch(
+    targets: string[],
+    options: DistanceBatchOptions,
+    query: BackendQuery
+  ): Promise<Record<string, number | { hops: number; paths?: number; score?: number } | null>> {
+    const { includePaths, includeScores } = options;
+    const { items, errors } = await this.fetchBatch(targets, query);
+    if (errors.size > 0) throw new BatchError(errors, this.toBatchResults(items, query));
+
+    const results: Record<string, number | { hops: number; paths?: number; score?: number } | null> = {};
+    for (const pubkey of targets) {
+      const item = items.get(pubkey);
+      if (!item || item.distance === null) {
+        results[pubkey] = null;
+        continue;
+      }
+      if (!includePaths && !includeScores) {
+        results[pubkey] = item.distance;
+        continue;
+      }
+
+      const result: { hops: number; paths?: number; score?: number } = { hops: item.distance };
+      if (includePaths) result.paths = item.paths;
+      if (includeScores) result.score = this.scoreOf(item.distance, item);
+      results[pubkey] = result;
+    }
+    return results;
+  }
+
+  async getTrustScoreBatch(
+    targets: string[],
+    query: BackendQuery
+  ): Promise<Record<string, number | null>> {
+    const { items, errors } = await this.fetchBatch(targets, query);
+    if (errors.size > 0) throw new BatchError(errors, this.toBatchResults(items, query));
+
+    const results: Record<string, number | null> = {};
+    for (const pubkey of targets) {
+      const item = items.get(pubkey);
+      results[pubkey] = item && item.distance !== null ? this.scoreOf(item.distance, item) : null;
+    }
+    return results;
+  }
+
+  async batchCheck(
+    targets: string[],
+    query: BackendQuery
+  ): Promise<Map<string, BatchResult>> {
+    const { items, errors } = await this.fetchBatch(targets, query);
+    const results = this.toBatchResults(items, query);
+
+    if (errors.size > 0) throw new BatchError(errors, results);
+    return results;
+  }
+
+  /**
+   * Requests targets from the /batch endpoint, in chunks
+   * A failed chunk is not "not in WoT" - its pubkeys are reported as failed.
+   * @throws AbortError if the query is aborted
+   */
+  private async fetchBatch(
+    targets: string[],
+    query: BackendQuery
+  ): Promise<{ items: Map<string, OracleBatchItem>; errors: Map<string, Error> }> {
+    const { root, maxHops } = query;
+
+    interface BatchResponse {
+      results: OracleBatchItem[];
+    }
+
+    // Process in batches of 50 to avoid URL length limits
+    const batches = chunk(targets, 50);
+    const outcomes = await settleAll(batches, this.batchConcurrency, (batch) => {
+      const request = () => {
+        throwIfAborted(query.signal);
+        return this.apiRequest<BatchResponse>(
+          `/batch/${root}?targets=${batch.join(',')}&maxHops=${maxHops}`,
+          query
+        );
+      };
+      return this.limiter ? this.limiter.run(request) : request();
+    });
+
+    const items = new Map<string, OracleBatchItem>();
+    const errors = new Map<string, Error>();
+    outcomes.forEach((outcome, i) => {
+      if (!outcome.ok) {
+        if (outcome.error instanceof AbortError) throw outcome.error;
+
+        const error = toError(outcome.error);
+        for (const pubkey of batches[i]) {
+          errors.set(pubkey, error);
+        }
+        return;
+      }
+
+      for (const item of outcome.value.results) {
+        items.set(item.pubkey, item);
+      }
+    });
+
+    return { items, errors };
+  }
+
+  /**
+   * Builds batchCheck results from /batch entries
+   */
+  private toBatchResults(
+    items: Map<string, OracleBatchItem>,
+    query: BackendQuery
+  ): Map<string, BatchResult> {
+    const results = new Map<string, BatchResult>();
+    for (const item of items.values()) {
+      results.set(item.pubkey, {
+        pubkey: item.pubkey,
+        distance: item.distance,
+        score: item.distance === null ? 0 : this.scoreOf(item.distance, item),
+        inWoT: item.distance !== null && item.distance <= query.maxHops,
+      });
+    }
+    return results;
+  }
+
+  /**
+   * Oracle doesn't return scores, so compute them client-side
+   */
+  private scoreOf(hops: number, item: OracleBatchItem): number {
+    return computeTrustScore(
+      { hops, paths: item.paths, mutual: item.mutual },
+      this.scoring
+    );
+  }
+
+  /**
+   * Makes an API request to the oracle, retrying transient failures
+   */
+  private async apiRequest<T>(endpoint: string, query: BackendQuery): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      throwIfAborted(query.signal);
+      try {
+        return await this.requestOnce<T>(endpoint, query);
+      } catch (error) {
+        const wait = this.retryDelay(error, attempt);
+        if (wait === null) throw error;
+        await delay(wait, query.signal);
+      }
+    }
+  }
+
+  /**
+   * Decides whether a failed attempt is retried
+   * @returns Delay before the next attempt, or null to give up
+   */
+  private retryDelay(error: unknown, attempt: number): number | null {
+    if (attempt >= this.retry.maxAttempts) return null;
+
+    // Timeouts, 404s and validation errors are not transient
+    if (!(error instanceof NetworkError)) return null;
+
+    if (error instanceof RateLimitError && error.retryAfter !== undefined) {
+      return error.retryAfter <= this.retry.maxDelay ? error.retryAfter : null;
+    }
+    if (error.statusCode !== undefined && !this.retry.retryOn.includes(error.statusCode)) {
+      return null;
+    }
+
+    return backoffDelay(attempt, this.retry);
+  }
+
+  /**
+   * Makes a single API request to the oracle
+   */
+  private async requestOnce<T>(endpoint: string, query: BackendQuery): Promise<T> {
+    const { timeout } = query;
+    const url = `${this.oracle}/api${endpoint}`;
+
+    let response: Response;
+    try {
+      response = await fetchWithTimeout(url, {
+        timeout,
+        fetch: this.fetch,
+        interceptors: this.interceptors,
+        signal: query.signal,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+    } catch (error) {
+      if (error instanceof AbortError) throw error;
+      if (error instanceof Error) {
+        if (query.signal?.aborted) {
+          throw new AbortError(query.signal.reason);
+        }
+        if (error.name === 'AbortError') {
+          throw new TimeoutError(timeout);
+        }
+        throw new NetworkError(error.message, undefined, url);
+      }
+      throw new NetworkError('Unknown network error', undefined, url);
+    }
+
+    if (!response.ok) {
+      if (response.status === 404) {
+        throw new NotFoundError('', `Resource not found: ${endpoint}`);
+      }
+      const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+      if (response.status === 429 || (response.status === 503 && retryAfter !== undefined)) {
+        throw new RateLimitError(
+          `HTTP ${response.status}: ${response.statusText}`,
+          response.status,
+          url,
+          retryAfter
+        );
+      }
+      throw new NetworkError(
+        `HTTP ${response.status}: ${response.statusText}`,
+        response.status,
+        url
+      );
+    }
+
+    return (await response.json()) as T;
+  }
+}
+
+/**
+ * Adapter that lets a fixed-root backend (the extension) answer queries
+ * rooted at another pubkey
+ *
+ * Distances go through the backend's getDistanceBetween. Every other
+ * method is left out, so routing falls through to the next backend.
+ */
+export class RerootedBackend implements WoTBackend {
+  readonly kind: BackendKind;
+  readonly name: string;
+  private readonly backend: WoTBackend;
+
+  /**
+   * @param backend - Fixed-root backend that implements getDistanceBetween
+   */
+  constructor(backend: WoTBackend) {
+    if (!backend.getDistanceBetween) {
+      throw new WoTError(`Backend ${backend.name} cannot answer for another root`);
+    }
+    this.backend = backend;
+    this.kind = backend.kind;
+    this.name = backend.name;
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return this.backend.isAvailable();
+  }
+
+  supports(): boolean {
+    // Every method goes through getDistanceBetween
+    return this.backend.supports?.('getDistanceBetween') ?? true;
+  }
+
+  async getDistance(target: string, query: BackendQuery): Promise<number | null> {
+    return this.backend.getDistanceBetween!(query.root, target, query);
+  }
+
+  async isInMyWoT(target: string, query: BackendQuery): Promise<boolean> {
+    const distance = await this.getDistance(target, query);
+    return distance !== null && distance <= query.maxHops;
+  }
+
+  async getDistanceBetween(
+    from: string,
+    to: string,
+    query: BackendQuery
+  ): Promise<number | null> {
+    return this.backend.getDistanceBetween!(from, to, query);
+  }
+}
+
+/**
+ * Backend for an in-memory LocalGraph
+ */
+export class LocalGraphBackend implements WoTBackend {
+  readonly kind: BackendKind = 'local';
+  readonly name = 'local';
+  readonly graph: LocalGraph;
+  private readonly scoring: ScoringConfig | null;
+  private readonly ranking: Partial<RankingConfig> | undefined;
+
+  /**
+   * @param graph - Local follow graph
+   * @param scoring - Overrides the graph's own scoring configuration
+   * @param ranking - Overrides the graph's own ranking configuration
+   */
+  constructor(
+    graph: LocalGraph,
+    scoring?: Partial<ScoringConfig>,
+    ranking?: Partial<RankingConfig>
+  ) {
+    this.graph = graph;
+    this.scoring = scoring ? resolveScoringConfig(scoring) : null;
+    this.ranking = ranking;
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return true;
+  }
+
+  async getPubkey(): Promise<string | null> {
+    return this.graph.getMyPubkey();
+  }
+
+  async getDistance(target: string, query: BackendQuery): Promise<number | null> {
+    return this.graph.getDistance(target, query);
+  }
+
+  async isInMyWoT(target: string, query: BackendQuery): Promise<boolean> {
+    return this.graph.isInMyWoT(target, query);
+  }
+
+  async getDistanceBetween(
+    from: string,
+    to: string,
+    query: BackendQuery
+  ): Promise<number | null> {
+    return this.graph.getDistanceBetween(from, to, query);
+  }
+
+  async getTrustScore(target: string, query: BackendQuery): Promise<number | null> {
+    const details = await this.getDetails(target, query);
+    return details ? details.score : null;
+  }
+
+  async getDetails(target: string, query: BackendQuery): Promise<DistanceResult | null> {
+    const details = this.graph.getDetails(target, query);
+    if (!details || !this.scoring) return details;
+
+    return { ...details, score: computeTrustScore(details, this.scoring) };
+  }
+
+  async getRankScores(
+    targets: string[],
+    algorithm: RankingAlgorithm,
+    query: BackendQuery
+  ): Promise<Record<string, number | null>> {
+    const ranks = this.graph.getRanks(algorithm, query, this.ranking);
+    const results: Record<string, number | null> = {};
+    for (const target of targets) {
+      results[target] = ranks.get(target) ?? null;
+    }
+    return results;
+  }
+
+  async getFollows(pubkey: string): Promise<string[]> {
+    return this.graph.getFollows(pubkey);
+  }
+
+  async getFollowers(
+    pubkey: string,
+    followers: FollowersQuery,
+    query: BackendQuery
+  ): Promise<FollowersPage> {
+    return this.graph.getFollowers(pubkey, {
+      ...query,
+      withinHops: followers.withinHops ?? undefined,
+      limit: followers.limit,
+      cursor: followers.cursor ?? undefined,
+    });
+  }
+
+  async getCommonFollows(pubkey: string, query: BackendQuery): Promise<string[]> {
+    return this.graph.getCommonFollows(pubkey, query);
+  }
+
+  async getPath(target: string, query: BackendQuery): Promise<string[] | null> {
+    return this.graph.getPath(target, query);
+  }
+
+  async getPaths(target: string, paths: PathQuery, query: BackendQuery): Promise<string[][]> {
+    return this.graph.getPaths(target, { ...query, ...paths });
+  }
+
+  async getStats(): Promise<GraphStats> {
+    return this.graph.getStats();
+  }
+}
@@ -0,0 +1,110 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { BatchLoader } from './batcher';
+
+function createLoader(maxBatchSize = 10) {
+  const loadBatch = vi.fn(async (keys: string[]) =>
+    Object.fromEntries(keys.filter((key) => key !== 'missing').map((key) => [key, key.length]))
+  );
+  return { loader: new BatchLoader<number>(loadBatch, 10, maxBatchSize), loadBatch };
+}
+
+describe('BatchLoader', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('loads keys of one window in a single batch', async () => {
+    const { loader, loadBatch } = createLoader();
+    const results = Promise.all([loader.load('a'), loader.load('bb'), loader.load('a')]);
+
+    expect(loadBatch).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(10);
+
+    await expect(results).resolves.toEqual([1, 2, 1]);
+    expect(loadBatch).toHaveBeenCalledTimes(1);
+    expect(loadBatch.mock.calls[0][0]).toEqual(['a', 'bb']);
+  });
+
+  it('resolves keys missing from the batch to null', async () => {
+    const { loader } = createLoader();
+    const result = loader.load('missing');
+    await vi.advanceTimersByTimeAsync(10);
+    await expect(result).resolves.toBeNull();
+  });
+
+  it('flushes early at maxBatchSize', async () => {
+    const { loader, loadBatch } = createLoader(2);
+    const first = Promise.all([loader.load('a'), loader.load('b')]);
+
+    expect(loadBatch).toHaveBeenCalledTimes(1);
+    await expect(first).resolves.toEqual([1, 1]);
+
+    const next = loader.load('c');
+    await vi.advanceTimersByTimeAsync(10);
+    await expect(next).resolves.toBe(1);
+    expect(loadBatch.mock.calls.map(([keys]) => keys)).toEqual([['a', 'b'], ['c']]);
+  });
+
+  it('flushes pending keys on demand', async () => {
+    const { loader, loadBatch } = createLoader();
+    const result = loader.load('a');
+    loader.flush();
+
+    expect(loadBatch).toHaveBeenCalledTimes(1);
+    await expect(result).resolves.toBe(1);
+    loader.flush();
+    expect(loadBatch).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects every key of a failed batch', async () => {
+    const loader = new BatchLoader<number>(async () => {
+      throw new Error('down');
+    }, 10, 10);
+    const results = [loader.load('a'), loader.load('b')];
+    const settled = Promise.all(results.map((r) => r.catch((e: Error) => e.message)));
+
+    await vi.advanceTimersByTimeAsync(10);
+    await expect(settled).resolves.toEqual(['down', 'down']);
+  });
+
+  it('keeps a batch running while one of its callers waits', async () => {
+    const signals: AbortSignal[] = [];
+    const loader = new BatchLoader<number>(async (_keys, signal) => {
+      signals.push(signal);
+      return {};
+    }, 10, 10);
+    const first = new AbortController();
+
+    const a = expect(loader.load('a', first.signal)).rejects.toMatchObject({
+      name: 'AbortError',
+    });
+    const b = loader.load('b', new AbortController().signal);
+    first.abort();
+    await a;
+
+    await vi.advanceTimersByTimeAsync(10);
+    await expect(b).resolves.toBeNull();
+    expect(signals[0].aborted).toBe(false);
+  });
+
+  it('starts a new batch once every caller of the pending one aborted', async () => {
+    const { loader, loadBatch } = createLoader();
+    const controller = new AbortController();
+
+    const a = expect(loader.load('a', controller.signal)).rejects.toMatchObject({
+      name: 'AbortError',
+    });
+    controller.abort();
+    await a;
+    await expect(loader.load('b', controller.signal)).rejects.toMatchObject({ name: 'AbortError' });
+
+    const c = loader.load('c');
+    await vi.advanceTimersByTimeAsync(10);
+    await expect(c).resolves.toBe(1);
+    expect(loadBatch.mock.calls.map(([keys]) => keys)).toEqual([['c']]);
+  });
+});
@@ -0,0 +1,101 @@
+import { AbortGroup } from './abort';
+import { AbortError } from './errors';
+import { createDeferred, type Deferred } from './utils';
+
+/**
+ * Keys collected for one batch call
+ */
+interface PendingBatch<V> {
+  entries: Map<string, Deferred<V | null>>;
+  group: AbortGroup;
+}
+
+/**
+ * Collects single-key loads made within a short window into one batch call
+ *
+ * DataLoader-style: identical keys in the same window share one promise,
+ * and the batch is flushed early once it reaches `maxBatchSize`. A caller
+ * that aborts only stops waiting; the batch call is cancelled once every
+ * caller of the batch has aborted.
+ */
+export class BatchLoader<V> {
+  private readonly loadBatch: (
+    keys: string[],
+    signal: AbortSignal
+  ) => Promise<Record<string, V | null>>;
+  private readonly window: number;
+  private readonly maxBatchSize: number;
+  private pending: PendingBatch<V> = { entries: new Map(), group: new AbortGroup() };
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * @param loadBatch - Loads a batch of keys, returning a record keyed by key.
+   *   The signal aborts once every caller of the batch has aborted.
+   * @param window - Milliseconds to wait for more keys before flushing
+   * @param maxBatchSize - Flush as soon as this many keys are pending
+   */
+  constructor(
+    loadBatch: (keys: string[], signal: AbortSignal) => Promise<Record<string, V | null>>,
+    window: number,
+    maxBatchSize: number
+  ) {
+    this.loadBatch = loadBatch;
+    this.window = window;
+    this.maxBatchSize = Math.max(1, maxBatchSize);
+  }
+
+  /**
+   * Queue a key for the next batch
+   * @param signal - Stops waiting for the key when aborted
+   * @returns Value for the key, or null if the batch has no entry for it
+   */
+  load(key: string, signal?: AbortSignal): Promise<V | null> {
+    // Every caller of the pending batch left - start a new one
+    if (this.pending.group.aborted) this.flush();
+
+    const batch = this.pending;
+    let deferred = batch.entries.get(key);
+    if (!deferred) {
+      deferred = createDeferred<V | null>();
+      batch.entries.set(key, deferred);
+
+      if (batch.entries.size >= this.maxBatchSize) {
+        this.flush();
+      } else if (this.timer === null) {
+        this.timer = setTimeout(() => this.flush(), this.window);
+      }
+    }
+
+    return batch.group.join(deferred.promise, signal);
+  }
+
+  /**
+   * Send all pending keys now
+   */
+  flush(): void {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    const { entries, group } = this.pending;
+    if (entries.size === 0) return;
+    this.pending = { entries: new Map(), group: new AbortGroup() };
+
+    const settle = (error: unknown) => {
+      for (const deferred of entries.values()) {
+        deferred.reject(error);
+      }
+    };
+    if (group.aborted) {
+      settle(new AbortError());
+      return;
+    }
+
+    this.loadBatch(Array.from(entries.keys()), group.signal).then((results) => {
+      for (const [key, deferred] of entries) {
+        deferred.resolve(results[key] ?? null);
+      }
+    }, settle);
+  }
+}
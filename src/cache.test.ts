@@ -0,0 +1,71 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { TTLCache } from './cache';
+
+describe('TTLCache', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('evicts the least recently used entry when full', () => {
+    const cache = new TTLCache<number>(2, 1000);
+    cache.set('a', 1);
+    cache.set('b', 2);
+    cache.get('a');
+    cache.set('c', 3);
+
+    expect(cache.size).toBe(2);
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.get('a')).toBe(1);
+    expect(cache.get('c')).toBe(3);
+  });
+
+  it('refreshes the position and TTL of overwritten keys', () => {
+    const cache = new TTLCache<number>(2, 1000);
+    cache.set('a', 1);
+    cache.set('b', 2);
+    vi.advanceTimersByTime(600);
+    cache.set('a', 10);
+    cache.set('c', 3);
+
+    expect(cache.get('b')).toBeUndefined();
+    vi.advanceTimersByTime(600);
+    expect(cache.get('a')).toBe(10);
+    expect(cache.storedAt('a')).toBe(600);
+  });
+
+  it('expires entries after the TTL', () => {
+    const cache = new TTLCache<string | null>(10, 1000);
+    cache.set('a', null);
+    vi.advanceTimersByTime(999);
+    expect(cache.get('a')).toBeNull();
+    expect(cache.storedAt('a')).toBe(0);
+
+    vi.advanceTimersByTime(1);
+    expect(cache.get('a')).toBeUndefined();
+    expect(cache.storedAt('a')).toBeUndefined();
+    expect(cache.size).toBe(0);
+  });
+
+  it('stores nothing with a maxSize of 0', () => {
+    const cache = new TTLCache<number>(0, 1000);
+    cache.set('a', 1);
+    expect(cache.get('a')).toBeUndefined();
+  });
+
+  it('deletes entries by predicate', () => {
+    const cache = new TTLCache<number>(10, 1000);
+    cache.set('distance|a', 1);
+    cache.set('distance|b', 2);
+    cache.set('score|a', 3);
+
+    expect(cache.deleteWhere((key) => key.endsWith('|a'))).toBe(2);
+    expect(cache.get('distance|b')).toBe(2);
+    cache.clear();
+    expect(cache.size).toBe(0);
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Cache entry with expiry time
+ */
+interface CacheEntry<V> {
+  value: V;
+  expiresAt: number;
+}
+
+/**
+ * Size-limited cache with per-entry TTL and LRU eviction
+ *
+ * Relies on Map insertion order: entries are re-inserted on access,
+ * so the first key is always the least recently used one.
+ */
+export class TTLCache<V> {
+  private readonly entries = new Map<string, CacheEntry<V>>();
+  private readonly maxSize: number;
+  private readonly ttl: number;
+
+  /**
+   * @param maxSize - Maximum number of entries
+   * @param ttl - Time to live in milliseconds
+   */
+  constructor(maxSize: number, ttl: number) {
+    this.maxSize = maxSize;
+    this.ttl = ttl;
+  }
+
+  /**
+   * Number of entries (including expired ones not yet evicted)
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Get a value, or undefined if missing or expired
+   */
+  get(key: string): V | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    // Mark as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  /**
+   * When a value was stored, or undefined if missing or expired
+   */
+  storedAt(key: string): number | undefined {
+    const entry = this.entries.get(key);
+    if (!entry || entry.expiresAt <= Date.now()) return undefined;
+    return entry.expiresAt - this.ttl;
+  }
+
+  /**
+   * Store a value, evicting the least recently used entries if full
+   */
+  set(key: string, value: V): void {
+    if (this.maxSize <= 0) return;
+
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + this.ttl });
+
+    while (this.entries.size > this.maxSize) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  /**
+   * Remove a single entry
+   */
+  delete(key: string): boolean {
+    return this.entries.delete(key);
+  }
+
+  /**
+   * Remove every entry whose key matches the predicate
+   * @returns Number of removed entries
+   */
+  deleteWhere(predicate: (key: string) => boolean): number {
+    let removed = 0;
+    for (const key of Array.from(this.entries.keys())) {
+      if (predicate(key)) {
+        this.entries.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  /**
+   * Remove all entries
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+}
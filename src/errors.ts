@@ -1,3 +1,5 @@
+import type { BatchResult } from './types';
+
 /**
  * Base error class for WoT SDK errors
  */
@@ -30,6 +32,24 @@ export class NetworkError extends WoTError {
   }
 }
 
+/**
+ * Error thrown when the oracle rate-limits requests (HTTP 429, or 503 with Retry-After)
+ */
+export class RateLimitError extends NetworkError {
+  /**
+   * Delay requested by the server before retrying, in milliseconds
+   * Undefined when the server sent no (valid) Retry-After header
+   */
+  public readonly retryAfter?: number;
+
+  constructor(message: string, statusCode?: number, url?: string, retryAfter?: number) {
+    super(message, statusCode, url);
+    this.name = 'RateLimitError';
+    this.retryAfter = retryAfter;
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
 /**
  * Error thrown when a pubkey is not found in the graph
  */
@@ -58,6 +78,75 @@ export class TimeoutError extends WoTError {
   }
 }
 
+/**
+ * Error thrown when a query is cancelled through its AbortSignal
+ */
+export class AbortError extends WoTError {
+  /**
+   * The signal's abort reason, if any
+   */
+  public readonly reason?: unknown;
+
+  constructor(reason?: unknown, message?: string) {
+    super(message || 'Query was aborted');
+    this.name = 'AbortError';
+    this.reason = reason;
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+/**
+ * Error thrown when a call into the browser extension fails
+ */
+export class ExtensionError extends WoTError {
+  /**
+   * Extension method that failed
+   */
+  public readonly method: string;
+  /**
+   * What the extension threw, if anything
+   */
+  public readonly cause?: unknown;
+
+  constructor(method: string, message: string, cause?: unknown) {
+    super(`Extension ${method} failed: ${message}`);
+    this.name = 'ExtensionError';
+    this.method = method;
+    this.cause = cause;
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+/**
+ * Error thrown when part of a batch failed
+ * Carries the results for the pubkeys that succeeded.
+ */
+export class BatchError extends WoTError {
+  /**
+   * Error per failed pubkey
+   */
+  public readonly errors: Map<string, Error>;
+  /**
+   * Results for the pubkeys that succeeded
+   */
+  public readonly results: Map<string, BatchResult>;
+
+  constructor(errors: Map<string, Error>, results: Map<string, BatchResult>, message?: string) {
+    super(message || `${errors.size} of ${errors.size + results.size} pubkeys failed`);
+    this.name = 'BatchError';
+    this.errors = errors;
+    this.results = results;
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+
+  /**
+   * Pubkeys that failed
+   */
+  get failed(): string[] {
+    return Array.from(this.errors.keys());
+  }
+}
+
 /**
  * Error thrown when validation fails
  */
@@ -0,0 +1,62 @@
+/**
+ * Minimal typed event emitter
+ *
+ * Listener errors are swallowed so one failing listener cannot keep the
+ * event from the others.
+ */
+export class Emitter<Events extends object> {
+  private readonly listeners = new Map<keyof Events, Set<(event: never) => void>>();
+
+  /**
+   * Subscribe to an event
+   * @returns true if the listener was not subscribed yet
+   */
+  on<K extends keyof Events>(name: K, listener: (event: Events[K]) => void): boolean {
+    let set = this.listeners.get(name);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(name, set);
+    }
+    if (set.has(listener)) return false;
+    set.add(listener);
+    return true;
+  }
+
+  /**
+   * Unsubscribe from an event
+   * @returns true if the listener was subscribed
+   */
+  off<K extends keyof Events>(name: K, listener: (event: Events[K]) => void): boolean {
+    const set = this.listeners.get(name);
+    if (!set?.delete(listener)) return false;
+    if (set.size === 0) this.listeners.delete(name);
+    return true;
+  }
+
+  /**
+   * Call every listener of an event
+   */
+  emit<K extends keyof Events>(name: K, event: Events[K]): void {
+    const set = this.listeners.get(name);
+    if (!set) return;
+
+    for (const listener of Array.from(set)) {
+      try {
+        (listener as (event: Events[K]) => void)(event);
+      } catch {
+        // Ignore - the other listeners still get the event
+      }
+    }
+  }
+
+  /**
+   * Number of listeners for one event, or for all events
+   */
+  listenerCount(name?: keyof Events): number {
+    if (name !== undefined) return this.listeners.get(name)?.size ?? 0;
+
+    let count = 0;
+    for (const set of this.listeners.values()) count += set.size;
+    return count;
+  }
+}
@@ -0,0 +1,150 @@
+import { describe, it, expect } from 'vitest';
+import { LocalGraph } from './graph';
+import type { NostrContactEvent } from './types';
+
+const pk = (c: string) => c.repeat(64);
+const [A, B, C, D, E, F] = ['a', 'b', 'c', 'd', 'e', 'f'].map(pk);
+
+function contacts(author: string, follows: string[], createdAt = 1, id = pk('0')): NostrContactEvent {
+  return {
+    id,
+    pubkey: author,
+    created_at: createdAt,
+    kind: 3,
+    tags: follows.map((p) => ['p', p]),
+    content: '',
+    sig: '',
+  };
+}
+
+/**
+ * A -> B, C; B -> D; C -> D; D -> E
+ */
+function createGraph(): LocalGraph {
+  const graph = new LocalGraph({ myPubkey: A });
+  graph.addEvents([
+    contacts(A, [B, C]),
+    contacts(B, [D]),
+    contacts(C, [D]),
+    contacts(D, [E]),
+  ]);
+  return graph;
+}
+
+describe('LocalGraph', () => {
+  describe('getDistance', () => {
+    it('returns the shortest hop count', () => {
+      const graph = createGraph();
+      expect(graph.getDistance(A)).toBe(0);
+      expect(graph.getDistance(B)).toBe(1);
+      expect(graph.getDistance(D)).toBe(2);
+      expect(graph.getDistance(E)).toBe(3);
+    });
+
+    it('returns null beyond maxHops or when unreachable', () => {
+      const graph = createGraph();
+      expect(graph.getDistance(E, { maxHops: 2 })).toBeNull();
+      expect(graph.getDistance(F)).toBeNull();
+      expect(graph.isInMyWoT(E, { maxHops: 2 })).toBe(false);
+      expect(graph.isInMyWoT(D, { maxHops: 2 })).toBe(true);
+    });
+
+    it('measures from another root', () => {
+      const graph = createGraph();
+      expect(graph.getDistance(E, { root: B })).toBe(2);
+      expect(graph.getDistanceBetween(C, E)).toBe(2);
+      expect(graph.getDistanceBetween(E, A)).toBeNull();
+    });
+
+    it('counts shortest paths in getDetails', () => {
+      const details = createGraph().getDetails(D);
+      expect(details).toMatchObject({ hops: 2, paths: 2, mutual: false });
+      expect(details?.bridges?.sort()).toEqual([B, C]);
+    });
+  });
+
+  describe('getPaths', () => {
+    it('returns shortest paths first, up to limit', () => {
+      const graph = createGraph();
+      graph.addEvent(contacts(C, [B, D], 2));
+
+      const paths = graph.getPaths(D);
+      expect(paths.slice(0, 2).sort()).toEqual([
+        [A, B, D],
+        [A, C, D],
+      ]);
+      expect(paths[2]).toEqual([A, C, B, D]);
+      expect(graph.getPaths(D, { limit: 1 })).toHaveLength(1);
+      expect(graph.getPaths(D, { maxHops: 2 })).toHaveLength(2);
+    });
+
+    it('picks vertex-disjoint paths with disjoint', () => {
+      const graph = createGraph();
+      expect(graph.getPaths(D, { disjoint: true })).toHaveLength(2);
+      expect(graph.getPaths(E)).toHaveLength(2);
+      expect(graph.getPaths(E, { disjoint: true })).toHaveLength(1);
+    });
+
+    it('handles unreachable targets and the root', () => {
+      const graph = createGraph();
+      expect(graph.getPaths(F)).toEqual([]);
+      expect(graph.getPaths(A)).toEqual([[A]]);
+      expect(graph.getPath(E)).toHaveLength(4);
+    });
+  });
+
+  describe('getFollowers', () => {
+    it('pages through followers, closest first', () => {
+      const graph = createGraph();
+      graph.addEvent(contacts(E, [D]));
+
+      const first = graph.getFollowers(D, { limit: 2 });
+      expect(first).toEqual({ pubkeys: [B, C], total: 3, nextCursor: '2' });
+
+      const second = graph.getFollowers(D, { limit: 2, cursor: first.nextCursor! });
+      expect(second).toEqual({ pubkeys: [E], total: 3, nextCursor: null });
+    });
+
+    it('filters by withinHops, leaving out the root', () => {
+      const graph = createGraph();
+      graph.addEvent(contacts(E, [D]));
+      graph.addEvent(contacts(D, [B, E], 2));
+
+      expect(graph.getFollowers(B).pubkeys).toEqual([A, D]);
+      expect(graph.getFollowers(B, { withinHops: 1 }).pubkeys).toEqual([]);
+      expect(graph.getFollowers(D, { withinHops: 1 })).toMatchObject({ pubkeys: [B, C], total: 2 });
+    });
+
+    it('rejects foreign cursors', () => {
+      expect(() => createGraph().getFollowers(D, { cursor: 'abc' })).toThrow('cursor');
+    });
+  });
+
+  describe('addEvent', () => {
+    it('keeps the newest contact list per author', () => {
+      const graph = createGraph();
+      expect(graph.addEvent(contacts(A, [F], 2))).toBe(true);
+      expect(graph.getDistance(F)).toBe(1);
+      expect(graph.getDistance(B)).toBeNull();
+
+      expect(graph.addEvent(contacts(A, [B], 1))).toBe(false);
+      expect(graph.getFollows()).toEqual([F]);
+    });
+
+    it('keeps the lowest id on created_at ties', () => {
+      const graph = new LocalGraph({ myPubkey: A });
+      graph.addEvent(contacts(A, [B], 5, pk('5')));
+      expect(graph.addEvent(contacts(A, [C], 5, pk('9')))).toBe(false);
+      expect(graph.addEvent(contacts(A, [D], 5, pk('1')))).toBe(true);
+      expect(graph.getFollows()).toEqual([D]);
+    });
+
+    it('ignores other kinds, invalid tags and self follows', () => {
+      const graph = new LocalGraph({ myPubkey: A });
+      const event = contacts(A, [B, 'not-a-pubkey', A]);
+      expect(graph.addEvent({ ...event, kind: 1 } as unknown as NostrContactEvent)).toBe(false);
+      expect(graph.addEvent(event)).toBe(true);
+      expect(graph.getFollows()).toEqual([B]);
+    });
+  });
+});
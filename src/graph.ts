@@ -0,0 +1,650 @@
+import type {
+  LocalGraphOptions,
+  LocalQueryOptions,
+  DistanceResult,
+  FollowersOptions,
+  FollowersPage,
+  GraphStats,
+  NostrContactEvent,
+  PathOptions,
+  RankingAlgorithm,
+  RankingConfig,
+  ScoringConfig,
+} from './types';
+import { ValidationError } from './errors';
+import {
+  DEFAULT_FOLLOWERS_LIMIT,
+  DEFAULT_MAX_HOPS,
+  DEFAULT_PATH_LIMIT,
+  isValidPubkey,
+  normalizePubkey,
+} from './utils';
+import { computeTrustScore, resolveScoringConfig } from './scoring';
+import { grapeRank, personalizedPageRank, resolveRankingConfig } from './ranking';
+
+/**
+ * Head of a pubkey's contact list (latest kind 3 event seen)
+ */
+interface ContactListHead {
+  id: string;
+  createdAt: number;
+}
+
+/**
+ * Breadth-first search state from a single source
+ */
+interface SearchResult {
+  /**
+   * Hop distance of every visited pubkey
+   */
+  distances: Map<string, number>;
+  /**
+   * Number of shortest paths reaching every visited pubkey
+   */
+  counts: Map<string, number>;
+}
+
+/**
+ * In-memory follow graph built from kind 3 contact events
+ *
+ * Answers the same questions as the browser extension (distance, paths,
+ * follows) without any network round-trip. Useful for Node services and
+ * browsers without the extension installed.
+ *
+ * Contact lists are replaceable events: only the newest event per author
+ * is kept. Event signatures are NOT verified - only ingest events from
+ * sources you trust to have verified them.
+ *
+ * @example
+ * ```ts
+ * const graph = new LocalGraph({ myPubkey: 'abc123...' });
+ * graph.addEvents(contactEvents);
+ *
+ * graph.getDistance('def456...'); // 2
+ * ```
+ */
+export class LocalGraph {
+  private readonly maxHops: number;
+  private readonly scoring: ScoringConfig;
+  private readonly ranking: RankingConfig;
+  private myPubkey: string | null;
+  private readonly follows = new Map<string, Set<string>>();
+  private readonly followers = new Map<string, Set<string>>();
+  private readonly heads = new Map<string, ContactListHead>();
+  private lastSync: number | null = null;
+  // Ranking results per algorithm/root/maxHops/config, dropped on every change
+  private readonly ranks = new Map<string, Map<string, number>>();
+
+  constructor(options: LocalGraphOptions = {}) {
+    this.myPubkey = options.myPubkey
+      ? requirePubkey(options.myPubkey, 'myPubkey')
+      : null;
+    this.maxHops = options.maxHops ?? DEFAULT_MAX_HOPS;
+    this.scoring = resolveScoringConfig(options.scoring);
+    this.ranking = resolveRankingConfig(options.ranking);
+  }
+
+  // ============================================
+  // Ingestion
+  // ============================================
+
+  /**
+   * Ingest a kind 3 contact event
+   *
+   * Older events for the same author are ignored. When two events share
+   * the same `created_at`, the one with the lowest id wins (NIP-01).
+   *
+   * @param event - Contact list event
+   * @returns true if the event replaced the author's follow list
+   */
+  addEvent(event: NostrContactEvent): boolean {
+    if (!event || event.kind !== 3 || !isValidPubkey(event.pubkey)) {
+      return false;
+    }
+
+    const author = normalizePubkey(event.pubkey);
+    const head = this.heads.get(author);
+    if (head) {
+      if (event.created_at < head.createdAt) return false;
+      if (event.created_at === head.createdAt && event.id >= head.id) return false;
+    }
+
+    const next = new Set<string>();
+    for (const tag of event.tags ?? []) {
+      if (tag[0] === 'p' && typeof tag[1] === 'string' && isValidPubkey(tag[1])) {
+        const followed = normalizePubkey(tag[1]);
+        if (followed !== author) next.add(followed);
+      }
+    }
+
+    this.setFollows(author, next);
+    this.heads.set(author, { id: event.id, createdAt: event.created_at });
+    this.lastSync = Math.floor(Date.now() / 1000);
+    return true;
+  }
+
+  /**
+   * Ingest multiple kind 3 contact events
+   * @param events - Contact list events (any order)
+   * @returns Number of events that replaced a follow list
+   */
+  addEvents(events: Iterable<NostrContactEvent>): number {
+    let applied = 0;
+    for (const event of events) {
+      if (this.addEvent(event)) applied++;
+    }
+    return applied;
+  }
+
+  /**
+   * Check whether a contact list has been ingested for a pubkey
+   */
+  hasFollowList(pubkey: string): boolean {
+    return this.heads.has(requirePubkey(pubkey, 'pubkey'));
+  }
+
+  /**
+   * Remove all ingested data
+   */
+  clear(): void {
+    this.follows.clear();
+    this.followers.clear();
+    this.heads.clear();
+    this.ranks.clear();
+    this.lastSync = null;
+  }
+
+  /**
+   * Set the root pubkey used by rooted queries
+   */
+  setMyPubkey(pubkey: string): void {
+    this.myPubkey = requirePubkey(pubkey, 'myPubkey');
+  }
+
+  /**
+   * Get the root pubkey used by rooted queries
+   * @returns Root pubkey or null if not set
+   */
+  getMyPubkey(): string | null {
+    return this.myPubkey;
+  }
+
+  // ============================================
+  // Queries
+  // ============================================
+
+  /**
+   * Get shortest path length from your pubkey to target
+   * @returns Number of hops, or null if not reachable within maxHops
+   */
+  getDistance(target: string, options?: LocalQueryOptions): number | null {
+    return this.getDistanceBetween(this.getRoot(options), target, options);
+  }
+
+  /**
+   * Check if target is within your Web of Trust
+   * @returns true if target is within maxHops
+   */
+  isInMyWoT(target: string, options?: LocalQueryOptions): boolean {
+    const distance = this.getDistance(target, options);
+    return distance !== null && distance <= (options?.maxHops ?? this.maxHops);
+  }
+
+  /**
+   * Get distance between any two pubkeys
+   * @returns Number of hops, or null if not reachable within maxHops
+   */
+  getDistanceBetween(from: string, to: string, options?: LocalQueryOptions): number | null {
+    const source = requirePubkey(from, 'from');
+    const target = requirePubkey(to, 'to');
+    const { distances } = this.search(source, options?.maxHops ?? this.maxHops, target);
+    return distances.get(target) ?? null;
+  }
+
+  /**
+   * Get trust score
+   * Uses `options.algorithm`: hop-decay (distance, path count and mutual
+   * flag), pagerank or graperank.
+   * @returns Trust score between 0 and 1, or 0 if not reachable
+   */
+  getTrustScore(target: string, options?: LocalQueryOptions): number {
+    const algorithm = options?.algorithm ?? 'hop-decay';
+    if (algorithm === 'hop-decay') {
+      return this.getDetails(target, options)?.score ?? 0;
+    }
+    return this.getRanks(algorithm, options).get(requirePubkey(target, 'target')) ?? 0;
+  }
+
+  /**
+   * Rank every pubkey within maxHops of the root
+   * Results are memoized until the graph changes.
+   * @param algorithm - pagerank or graperank
+   * @param options - Query options (root, maxHops)
+   * @param config - Overrides the graph's ranking configuration
+   * @returns Score (0-1) per pubkey within maxHops
+   */
+  getRanks(
+    algorithm: RankingAlgorithm,
+    options?: LocalQueryOptions,
+    config?: Partial<RankingConfig>
+  ): Map<string, number> {
+    const root = this.getRoot(options);
+    const maxHops = options?.maxHops ?? this.maxHops;
+    const resolved = config ? { ...this.ranking, ...config } : this.ranking;
+
+    const key = [
+      algorithm,
+      root,
+      maxHops,
+      resolved.iterations,
+      resolved.damping,
+      resolved.rigor,
+    ].join('|');
+    const cached = this.ranks.get(key);
+    if (cached) return cached;
+
+    const nodes = new Set(this.search(root, maxHops).distances.keys());
+    const ranks =
+      algorithm === 'pagerank'
+        ? personalizedPageRank(nodes, root, (pk) => this.follows.get(pk) ?? [], resolved)
+        : grapeRank(nodes, root, (pk) => this.followers.get(pk) ?? [], resolved);
+
+    this.ranks.set(key, ranks);
+    return ranks;
+  }
+
+  /**
+   * Get distance, shortest path count, score, bridges and mutual flag
+   * @returns Distance result, or null if not reachable within maxHops
+   */
+  getDetails(target: string, options?: LocalQueryOptions): DistanceResult | null {
+    const root = this.getRoot(options);
+    const normalizedTarget = requirePubkey(target, 'target');
+    const { distances, counts } = this.search(
+      root,
+      options?.maxHops ?? this.maxHops,
+      normalizedTarget
+    );
+
+    const hops = distances.get(normalizedTarget);
+    if (hops === undefined) return null;
+
+    const paths = counts.get(normalizedTarget) ?? 0;
+    const mutual = this.follows.get(normalizedTarget)?.has(root) ?? false;
+
+    return {
+      hops,
+      paths,
+      score: computeTrustScore({ hops, paths, mutual }, this.scoring),
+      bridges: this.collectBridges(normalizedTarget, distances),
+      mutual,
+    };
+  }
+
+  /**
+   * Get a shortest path from your pubkey to the target
+   * @returns Array of pubkeys [root, ..., target], or null if not reachable
+   */
+  getPath(target: string, options?: LocalQueryOptions): string[] | null {
+    const normalizedTarget = requirePubkey(target, 'target');
+    const { distances } = this.search(
+      this.getRoot(options),
+      options?.maxHops ?? this.maxHops,
+      normalizedTarget
+    );
+
+    const distance = distances.get(normalizedTarget);
+    if (distance === undefined) return null;
+
+    // Walk back from the target through followers one layer closer
+    const path = [normalizedTarget];
+    let current = normalizedTarget;
+    let hops = distance;
+    while (hops > 0) {
+      const layer: number = hops - 1;
+      const previous = Array.from(this.followers.get(current) ?? []).find(
+        (pk) => distances.get(pk) === layer
+      );
+      if (!previous) return null;
+      path.unshift(previous);
+      current = previous;
+      hops = layer;
+    }
+
+    return path;
+  }
+
+  /**
+   * Get up to `limit` distinct paths from your pubkey to the target
+   *
+   * Paths are simple and come shortest first. With `disjoint`, paths share
+   * no intermediate pubkeys - they are picked greedily, shortest first, so
+   * the count is a lower bound on the number of independent routes.
+   *
+   * @returns Arrays of pubkeys [root, ..., target], empty if not reachable
+   */
+  getPaths(target: string, options?: LocalQueryOptions & PathOptions): string[][] {
+    const root = this.getRoot(options);
+    const normalizedTarget = requirePubkey(target, 'target');
+    const maxHops = options?.maxHops ?? this.maxHops;
+    const limit = options?.limit ?? DEFAULT_PATH_LIMIT;
+
+    if (limit <= 0) return [];
+    if (root === normalizedTarget) return [[root]];
+
+    return options?.disjoint
+      ? this.disjointPaths(root, normalizedTarget, maxHops, limit)
+      : this.shortestPaths(root, normalizedTarget, maxHops, limit);
+  }
+
+  /**
+   * Get the follow list for a pubkey
+   * @param pubkey - Optional, defaults to your pubkey
+   * @returns Array of followed pubkeys
+   */
+  getFollows(pubkey?: string): string[] {
+    const author = pubkey ? requirePubkey(pubkey, 'pubkey') : this.getRoot();
+    return Array.from(this.follows.get(author) ?? []);
+  }
+
+  /**
+   * Get one page of the pubkeys that follow a pubkey
+   *
+   * Followers are ordered by distance from your pubkey (unreachable ones
+   * last), then by pubkey. With `withinHops`, only followers within that
+   * many hops of you are returned - your own pubkey is left out.
+   * The cursor is the offset of the next page.
+   */
+  getFollowers(pubkey: string, options?: LocalQueryOptions & FollowersOptions): FollowersPage {
+    const target = requirePubkey(pubkey, 'pubkey');
+    const root = this.getRoot(options);
+    const withinHops = options?.withinHops;
+    const limit = options?.limit ?? DEFAULT_FOLLOWERS_LIMIT;
+
+    const offset = options?.cursor ? Number(options.cursor) : 0;
+    if (!Number.isInteger(offset) || offset < 0) {
+      throw new ValidationError('cursor must come from a previous page', 'cursor');
+    }
+
+    const { distances } = this.search(root, withinHops ?? options?.maxHops ?? this.maxHops);
+    const rank = (pk: string) => distances.get(pk) ?? Infinity;
+
+    let followers = Array.from(this.followers.get(target) ?? []);
+    if (withinHops !== undefined) {
+      followers = followers.filter((pk) => pk !== root && rank(pk) <= withinHops);
+    }
+    followers.sort((a, b) => rank(a) - rank(b) || (a < b ? -1 : a > b ? 1 : 0));
+
+    const end = offset + limit;
+    return {
+      pubkeys: followers.slice(offset, end),
+      total: followers.length,
+      nextCursor: end < followers.length ? String(end) : null,
+    };
+  }
+
+  /**
+   * Get pubkeys followed by both you and the target
+   * @returns Array of common followed pubkeys
+   */
+  getCommonFollows(pubkey: string, options?: LocalQueryOptions): string[] {
+    const other = this.follows.get(requirePubkey(pubkey, 'pubkey'));
+    if (!other) return [];
+    return this.getFollows(this.getRoot(options)).filter((pk) => other.has(pk));
+  }
+
+  /**
+   * Get graph statistics
+   * @returns Stats object with node/edge counts and sync info
+   */
+  getStats(): GraphStats {
+    const nodes = new Set<string>([...this.follows.keys(), ...this.followers.keys()]);
+    let edges = 0;
+    for (const set of this.follows.values()) edges += set.size;
+
+    return {
+      nodes: nodes.size,
+      edges,
+      lastSync: this.lastSync,
+      // Rough estimate: 32-byte pubkey per node plus two 8-byte refs per edge
+      size: formatBytes(nodes.size * 32 + edges * 16),
+    };
+  }
+
+  // ============================================
+  // Internals
+  // ============================================
+
+  /**
+   * Gets the root pubkey (per-query override or myPubkey)
+   * @throws ValidationError if neither is available
+   */
+  private getRoot(options?: LocalQueryOptions): string {
+    if (options?.root) {
+      return requirePubkey(options.root, 'root');
+    }
+    if (!this.myPubkey) {
+      throw new ValidationError(
+        'No pubkey available. Provide myPubkey to LocalGraph.',
+        'myPubkey'
+      );
+    }
+    return this.myPubkey;
+  }
+
+  /**
+   * Replaces an author's outgoing edges, keeping the reverse index in sync
+   */
+  private setFollows(author: string, next: Set<string>): void {
+    const previous = this.follows.get(author);
+    if (previous) {
+      for (const pk of previous) {
+        if (next.has(pk)) continue;
+        const set = this.followers.get(pk);
+        set?.delete(author);
+        if (set && set.size === 0) this.followers.delete(pk);
+      }
+    }
+
+    for (const pk of next) {
+      let set = this.followers.get(pk);
+      if (!set) {
+        set = new Set();
+        this.followers.set(pk, set);
+      }
+      set.add(author);
+    }
+
+    this.follows.set(author, next);
+    this.ranks.clear();
+  }
+
+  /**
+   * Enumerates simple paths in order of length, up to `limit`
+   * Prunes with distances to the target (BFS over followers).
+   */
+  private shortestPaths(root: string, target: string, maxHops: number, limit: number): string[][] {
+    const toTarget = this.search(target, maxHops, undefined, this.followers).distances;
+    const shortest = toTarget.get(root);
+    if (shortest === undefined) return [];
+
+    const paths: string[][] = [];
+    const path = [root];
+    const onPath = new Set(path);
+
+    // Depth-first walk for paths of exactly `remaining` more hops
+    const walk = (node: string, remaining: number): boolean => {
+      if (node === target) {
+        if (remaining === 0) paths.push([...path]);
+        return paths.length >= limit;
+      }
+
+      for (const next of this.follows.get(node) ?? []) {
+        const distance = toTarget.get(next);
+        if (onPath.has(next) || distance === undefined || distance > remaining - 1) continue;
+
+        path.push(next);
+        onPath.add(next);
+        const done = walk(next, remaining - 1);
+        path.pop();
+        onPath.delete(next);
+        if (done) return true;
+      }
+      return false;
+    };
+
+    for (let length = shortest; length <= maxHops; length++) {
+      if (walk(root, length)) break;
+    }
+    return paths;
+  }
+
+  /**
+   * Greedily collects vertex-disjoint shortest paths
+   */
+  private disjointPaths(root: string, target: string, maxHops: number, limit: number): string[][] {
+    const paths: string[][] = [];
+    const used = new Set<string>();
+    let direct = false;
+
+    while (paths.length < limit) {
+      const path = this.findPath(root, target, maxHops, used, !direct);
+      if (!path) break;
+
+      paths.push(path);
+      if (path.length === 2) direct = true;
+      for (const pk of path.slice(1, -1)) used.add(pk);
+    }
+    return paths;
+  }
+
+  /**
+   * BFS for one shortest path that avoids the excluded pubkeys
+   * @param allowDirect - Whether the root -> target edge may be used
+   */
+  private findPath(
+    root: string,
+    target: string,
+    maxHops: number,
+    excluded: Set<string>,
+    allowDirect: boolean
+  ): string[] | null {
+    const parents = new Map<string, string>();
+    const visited = new Set([root]);
+    let frontier = [root];
+
+    for (let depth = 1; depth <= maxHops && frontier.length > 0; depth++) {
+      const next: string[] = [];
+      for (const pk of frontier) {
+        for (const followed of this.follows.get(pk) ?? []) {
+          if (followed === target) {
+            if (pk === root && !allowDirect) continue;
+            const path = [target, pk];
+            let current = pk;
+            while (current !== root) {
+              current = parents.get(current)!;
+              path.push(current);
+            }
+            return path.reverse();
+          }
+          if (visited.has(followed) || excluded.has(followed)) continue;
+          visited.add(followed);
+          parents.set(followed, pk);
+          next.push(followed);
+        }
+      }
+      frontier = next;
+    }
+
+    return null;
+  }
+
+  /**
+   * Layered BFS that also counts shortest paths
+   * Stops after the layer where `target` is first reached.
+   * @param edges - Adjacency to walk (follows, or followers to search backwards)
+   */
+  private search(
+    source: string,
+    maxHops: number,
+    target?: string,
+    edges: Map<string, Set<string>> = this.follows
+  ): SearchResult {
+    const distances = new Map<string, number>([[source, 0]]);
+    const counts = new Map<string, number>([[source, 1]]);
+    let frontier = [source];
+
+    for (let depth = 1; depth <= maxHops && frontier.length > 0; depth++) {
+      if (target && distances.has(target)) break;
+
+      const next: string[] = [];
+      for (const pk of frontier) {
+        const count = counts.get(pk) ?? 0;
+        for (const followed of edges.get(pk) ?? []) {
+          const seen = distances.get(followed);
+          if (seen === undefined) {
+            distances.set(followed, depth);
+            counts.set(followed, count);
+            next.push(followed);
+          } else if (seen === depth) {
+            counts.set(followed, (counts.get(followed) ?? 0) + count);
+          }
+        }
+      }
+      frontier = next;
+    }
+
+    return { distances, counts };
+  }
+
+  /**
+   * Collects first-hop pubkeys that lie on a shortest path to the target
+   */
+  private collectBridges(target: string, distances: Map<string, number>): string[] {
+    const hops = distances.get(target) ?? 0;
+    if (hops < 2) return [];
+
+    let layer = new Set([target]);
+    for (let depth = hops - 1; depth >= 1; depth--) {
+      const previous = new Set<string>();
+      for (const pk of layer) {
+        for (const follower of this.followers.get(pk) ?? []) {
+          if (distances.get(follower) === depth) previous.add(follower);
+        }
+      }
+      layer = previous;
+    }
+
+    return Array.from(layer);
+  }
+}
+
+/**
+ * Validates and normalizes a pubkey parameter
+ */
+function requirePubkey(pubkey: string, paramName: string): string {
+  if (!pubkey) {
+    throw new ValidationError(`${paramName} is required`, paramName);
+  }
+  if (!isValidPubkey(pubkey)) {
+    throw new ValidationError(
+      `${paramName} must be a valid 64-character hex string`,
+      paramName
+    );
+  }
+  return normalizePubkey(pubkey);
+}
+
+/**
+ * Formats a byte count as a human-readable string
+ */
+function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${unit === 0 ? value : value.toFixed(1)} ${units[unit]}`;
+}
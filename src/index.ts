@@ -1,21 +1,108 @@
 // Main WoT class
 export { WoT } from './wot';
 
+// Local follow graph
+export { LocalGraph } from './graph';
+
+// Scoring
+export { computeTrustScore, DEFAULT_SCORING } from './scoring';
+export { personalizedPageRank, grapeRank, DEFAULT_RANKING } from './ranking';
+
+// Identifiers (NIP-19, NIP-05)
+export {
+  decodeNpub,
+  decodeNprofile,
+  encodeNpub,
+  parsePubkey,
+  isNpub,
+  isNprofile,
+} from './nip19';
+export { Nip05Resolver, isNip05Identifier } from './nip05';
+
+// Negative signals (NIP-51 mute lists, NIP-56 reports)
+export {
+  SignalStore,
+  DEFAULT_SIGNAL_POLICY,
+  MUTE_LIST_KIND,
+  REPORT_KIND,
+} from './signals';
+
+// Concurrency limiting (OracleBackendOptions.limiter)
+export { Limiter } from './limiter';
+
+// Backends
+export {
+  ExtensionBackend,
+  OracleBackend,
+  LocalGraphBackend,
+  RerootedBackend,
+} from './backends';
+
 // Types
 export type {
   WoTOptions,
+  WatchOptions,
+  WoTEventMap,
+  WoTEventName,
+  WoTEventListener,
+  PubkeyChangeListener,
   WoTFallbackOptions,
   ScoringConfig,
+  ScoreInput,
+  TrustAlgorithm,
+  RankingAlgorithm,
+  RankingConfig,
+  TrustThreshold,
   QueryOptions,
+  MetaQueryOptions,
+  ResultSource,
+  ResultMeta,
+  WithMeta,
   DistanceResult,
   DistanceBatchOptions,
+  FieldSource,
+  FieldSources,
   ExtensionDistanceResult,
   ExtensionConfig,
   ExtensionStatus,
+  ExtensionCapabilities,
+  ExtensionMethod,
   ExtensionConnectionStatus,
   GraphStats,
   BatchResult,
+  SettledBatchResult,
+  StreamBatchOptions,
+  BatchProgress,
   NostrContactEvent,
+  NostrEvent,
+  EventPolicy,
+  ScoredEvent,
+  PathOptions,
+  PathQuery,
+  FollowersOptions,
+  FollowersQuery,
+  FollowersPage,
+  SignalPolicy,
+  SignalSummary,
+  BlockedBy,
+  LocalGraphOptions,
+  LocalQueryOptions,
+  BackendKind,
+  BackendStrategy,
+  BackendQuery,
+  BackendSpec,
+  BackendMethod,
+  OracleBackendOptions,
+  ExtensionBackendOptions,
+  CacheOptions,
+  BatchingOptions,
+  RetryOptions,
+  FetchFunction,
+  TransportRequest,
+  TransportInterceptors,
+  Nip05Options,
+  ProfilePointer,
+  WoTBackend,
   NostrWoTExtension,
   NostrWindow,
 } from './types';
@@ -24,8 +111,12 @@ export type {
 export {
   WoTError,
   NetworkError,
+  RateLimitError,
   NotFoundError,
   TimeoutError,
+  AbortError,
+  ExtensionError,
+  BatchError,
   ValidationError,
 } from './errors';
 
@@ -37,5 +128,7 @@ export {
   DEFAULT_ORACLE,
   DEFAULT_MAX_HOPS,
   DEFAULT_TIMEOUT,
+  DEFAULT_CACHE_SIZE,
+  DEFAULT_CACHE_TTL,
   MAX_BATCH_SIZE,
 } from './utils';
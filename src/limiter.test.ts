@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { Limiter } from './limiter';
+import { createDeferred, type Deferred } from './utils';
+
+describe('Limiter', () => {
+  it('caps the number of tasks in flight and runs the rest in order', async () => {
+    const limiter = new Limiter(2);
+    const tasks: Array<Deferred<number>> = [];
+    const started: number[] = [];
+
+    const results = [0, 1, 2, 3].map((i) =>
+      limiter.run(() => {
+        started.push(i);
+        tasks[i] = createDeferred<number>();
+        return tasks[i].promise;
+      })
+    );
+    await Promise.resolve();
+    expect(started).toEqual([0, 1]);
+
+    tasks[1].resolve(1);
+    await results[1];
+    expect(started).toEqual([0, 1, 2]);
+
+    tasks[0].reject(new Error('failed'));
+    await expect(results[0]).rejects.toThrow('failed');
+    expect(started).toEqual([0, 1, 2, 3]);
+
+    tasks[2].resolve(2);
+    tasks[3].resolve(3);
+    await expect(Promise.all(results.slice(2))).resolves.toEqual([2, 3]);
+  });
+
+  it('maps items in input order', async () => {
+    const limiter = new Limiter(1);
+    let active = 0;
+    let maxActive = 0;
+
+    const results = await limiter.map([30, 10, 20], async (ms, i) => {
+      maxActive = Math.max(maxActive, ++active);
+      await new Promise((resolve) => setTimeout(resolve, ms));
+      active--;
+      return `${i}:${ms}`;
+    });
+
+    expect(results).toEqual(['0:30', '1:10', '2:20']);
+    expect(maxActive).toBe(1);
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * Caps how many async tasks run at once
+ *
+ * Tasks over the limit wait in FIFO order. A finishing task hands its
+ * slot straight to the next waiting one. Tasks must not run other tasks
+ * on the same limiter - a full limiter would then wait on itself.
+ */
+export class Limiter {
+  private readonly concurrency: number;
+  private readonly waiting: Array<() => void> = [];
+  private active = 0;
+
+  /**
+   * @param concurrency - Maximum number of tasks in flight
+   */
+  constructor(concurrency: number) {
+    this.concurrency = Math.max(1, concurrency);
+  }
+
+  /**
+   * Run a task once a slot is free
+   */
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    if (this.active < this.concurrency) {
+      this.active++;
+    } else {
+      await new Promise<void>((resolve) => this.waiting.push(resolve));
+    }
+
+    try {
+      return await task();
+    } finally {
+      const next = this.waiting.shift();
+      if (next) {
+        next();
+      } else {
+        this.active--;
+      }
+    }
+  }
+
+  /**
+   * Run a task per item, like Promise.all over `items.map(fn)`
+   * @returns Results in input order
+   */
+  map<T, R>(items: T[], fn: (item: T, index: number) => Promise<R>): Promise<R[]> {
+    return Promise.all(items.map((item, i) => this.run(() => fn(item, i))));
+  }
+}
@@ -0,0 +1,97 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Nip05Resolver, isNip05Identifier } from './nip05';
+import { AbortError, NetworkError, ValidationError } from './errors';
+import type { FetchFunction } from './types';
+
+const PUBKEY = 'b'.repeat(64);
+
+function createFetch(respond: () => Response) {
+  return vi.fn<FetchFunction>(async () => respond());
+}
+
+const names = (body: unknown) => () => new Response(JSON.stringify(body), { status: 200 });
+
+describe('isNip05Identifier', () => {
+  it('accepts name@domain only', () => {
+    expect(isNip05Identifier('bob@example.com')).toBe(true);
+    expect(isNip05Identifier('_@example.com')).toBe(true);
+    expect(isNip05Identifier('bob@localhost')).toBe(false);
+    expect(isNip05Identifier('npub1abc')).toBe(false);
+  });
+});
+
+describe('Nip05Resolver', () => {
+  it('resolves names listed in nostr.json', async () => {
+    const fetch = createFetch(names({ names: { bob: PUBKEY.toUpperCase() } }));
+    const resolver = new Nip05Resolver({ fetch });
+
+    await expect(resolver.resolve(' Bob@Example.com ')).resolves.toBe(PUBKEY);
+    expect(fetch.mock.calls[0][0]).toBe('https://example.com/.well-known/nostr.json?name=bob');
+  });
+
+  it('returns null for unknown names, invalid pubkeys and 404s', async () => {
+    const listed = new Nip05Resolver({ fetch: createFetch(names({ names: { bob: 'nope' } })) });
+    await expect(listed.resolve('alice@example.com')).resolves.toBeNull();
+    await expect(listed.resolve('bob@example.com')).resolves.toBeNull();
+
+    const missing = new Nip05Resolver({
+      fetch: createFetch(() => new Response('', { status: 404 })),
+    });
+    await expect(missing.resolve('bob@example.com')).resolves.toBeNull();
+  });
+
+  it('caches results and shares concurrent lookups', async () => {
+    const fetch = createFetch(names({ names: { bob: PUBKEY } }));
+    const resolver = new Nip05Resolver({ fetch });
+
+    await Promise.all([resolver.resolve('bob@example.com'), resolver.resolve('BOB@example.com')]);
+    await resolver.resolve('bob@example.com');
+    expect(fetch).toHaveBeenCalledTimes(1);
+
+    resolver.clear();
+    await resolver.resolve('bob@example.com');
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('reports failed lookups as SDK errors', async () => {
+    const malformed = new Nip05Resolver({
+      fetch: createFetch(() => new Response('<html>', { status: 200 })),
+    });
+    await expect(malformed.resolve('bob@example.com')).rejects.toBeInstanceOf(NetworkError);
+
+    const failing = new Nip05Resolver({
+      fetch: createFetch(() => new Response('', { status: 500, statusText: 'Error' })),
+    });
+    await expect(failing.resolve('bob@example.com')).rejects.toMatchObject({ statusCode: 500 });
+
+    const resolver = new Nip05Resolver({ fetch: createFetch(names({})) });
+    await expect(resolver.resolve('bob')).rejects.toBeInstanceOf(ValidationError);
+  });
+
+  it('aborts the lookup once every caller aborted', async () => {
+    let aborted = false;
+    const fetch = vi.fn<FetchFunction>(
+      (_url, init) =>
+        new Promise((_resolve, reject) =>
+          init?.signal?.addEventListener('abort', () => {
+            aborted = true;
+            reject(init.signal!.reason);
+          })
+        )
+    );
+    const resolver = new Nip05Resolver({ fetch });
+    const first = new AbortController();
+    const second = new AbortController();
+
+    const a = resolver.resolve('bob@example.com', first.signal);
+    const b = resolver.resolve('bob@example.com', second.signal);
+    first.abort();
+    await expect(a).rejects.toBeInstanceOf(AbortError);
+    expect(aborted).toBe(false);
+
+    second.abort();
+    await expect(b).rejects.toBeInstanceOf(AbortError);
+    expect(aborted).toBe(true);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,152 @@
+import type { FetchFunction, Nip05Options, TransportInterceptors } from './types';
+import { AbortError, NetworkError, TimeoutError, ValidationError } from './errors';
+import { TTLCache } from './cache';
+import { AbortGroup } from './abort';
+import {
+  DEFAULT_CACHE_SIZE,
+  DEFAULT_NIP05_TTL,
+  DEFAULT_TIMEOUT,
+  fetchWithTimeout,
+  isValidPubkey,
+  normalizePubkey,
+  throwIfAborted,
+} from './utils';
+
+/**
+ * Lookup shared by concurrent resolves of one identifier
+ */
+interface Lookup {
+  promise: Promise<string | null>;
+  group: AbortGroup;
+}
+
+/**
+ * Checks if a string is a NIP-05 identifier (`name@domain`)
+ */
+export function isNip05Identifier(value: string): boolean {
+  return /^[a-z0-9._-]+@[a-z0-9.-]+\.[a-z]{2,}$/i.test(value);
+}
+
+/**
+ * Resolves NIP-05 identifiers to hex pubkeys
+ *
+ * Looks up `https://<domain>/.well-known/nostr.json?name=<name>`.
+ * Results (including unknown names) are cached, and concurrent lookups
+ * of the same identifier share one request. The request is aborted once
+ * every caller waiting for it has aborted.
+ */
+export class Nip05Resolver {
+  private readonly fetch: FetchFunction | undefined;
+  private readonly interceptors: TransportInterceptors | undefined;
+  private readonly timeout: number;
+  private readonly cache: TTLCache<string | null> | null;
+  private readonly inflight = new Map<string, Lookup>();
+
+  constructor(options: Nip05Options = {}) {
+    this.fetch = options.fetch;
+    this.interceptors = options.interceptors;
+    this.timeout = options.timeout ?? DEFAULT_TIMEOUT;
+    this.cache =
+      options.cache === false
+        ? null
+        : new TTLCache(
+            options.cache?.maxSize ?? DEFAULT_CACHE_SIZE,
+            options.cache?.ttl ?? DEFAULT_NIP05_TTL
+          );
+  }
+
+  /**
+   * Resolve an identifier to a hex pubkey
+   * @param identifier - NIP-05 identifier (`name@domain`)
+   * @param signal - Stops waiting for the lookup when aborted
+   * @returns Hex pubkey, or null if the domain does not list the name
+   * @throws ValidationError for malformed identifiers, NetworkError/TimeoutError on failed lookups,
+   *   AbortError when the signal aborts
+   */
+  async resolve(identifier: string, signal?: AbortSignal): Promise<string | null> {
+    const normalized = identifier.trim().toLowerCase();
+    if (!isNip05Identifier(normalized)) {
+      throw new ValidationError(
+        'identifier must be a NIP-05 identifier in name@domain format',
+        'identifier'
+      );
+    }
+
+    throwIfAborted(signal);
+    const cached = this.cache?.get(normalized);
+    if (cached !== undefined) return cached;
+
+    let lookup = this.inflight.get(normalized);
+    if (!lookup || lookup.group.aborted) {
+      const group = new AbortGroup();
+      const promise: Promise<string | null> = this.lookup(normalized, group.signal).finally(() => {
+        if (this.inflight.get(normalized)?.promise === promise) this.inflight.delete(normalized);
+      });
+      lookup = { promise, group };
+      this.inflight.set(normalized, lookup);
+    }
+    return lookup.group.join(lookup.promise, signal);
+  }
+
+  /**
+   * Drop all cached results
+   */
+  clear(): void {
+    this.cache?.clear();
+  }
+
+  /**
+   * Fetches nostr.json for the identifier's domain
+   */
+  private async lookup(identifier: string, signal: AbortSignal): Promise<string | null> {
+    const [name, domain] = identifier.split('@');
+    const url = `https://${domain}/.well-known/nostr.json?name=${encodeURIComponent(name)}`;
+
+    let response: Response;
+    try {
+      response = await fetchWithTimeout(url, {
+        timeout: this.timeout,
+        fetch: this.fetch,
+        interceptors: this.interceptors,
+        signal,
+        headers: {
+          Accept: 'application/json',
+        },
+      });
+    } catch (error) {
+      if (error instanceof AbortError) throw error;
+      if (signal.aborted) throw new AbortError(signal.reason);
+      if (error instanceof Error && error.name === 'AbortError') {
+        throw new TimeoutError(this.timeout);
+      }
+      throw new NetworkError(
+        error instanceof Error ? error.message : 'Unknown network error',
+        undefined,
+        url
+      );
+    }
+
+    let pubkey: string | null = null;
+    if (response.ok) {
+      let body: { names?: Record<string, unknown> } | null;
+      try {
+        body = (await response.json()) as { names?: Record<string, unknown> } | null;
+      } catch {
+        throw new NetworkError('Invalid nostr.json response', response.status, url);
+      }
+      const value = body?.names?.[name];
+      if (typeof value === 'string' && isValidPubkey(value)) {
+        pubkey = normalizePubkey(value);
+      }
+    } else if (response.status !== 404) {
+      throw new NetworkError(
+        `HTTP ${response.status}: ${response.statusText}`,
+        response.status,
+        url
+      );
+    }
+
+    this.cache?.set(identifier, pubkey);
+    return pubkey;
+  }
+}
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { decodeNpub, decodeNprofile, encodeNpub, parsePubkey } from './nip19';
+import { ValidationError } from './errors';
+
+// Test vectors from NIP-19
+const HEX = '3bf0c63fcb93463407af97a5e5ee64fa883d107ef9e558472c4eb9aaaefa459d';
+const NPUB = 'npub180cvv07tjdrrgpa0j7j7tmnyl2yr6yr7l8j4s3evf6u64th6gkwsyjh6w6';
+const NPROFILE =
+  'nprofile1qqsrhuxx8l9ex335q7he0f09aej04zpazpl0ne2cgukyawd24mayt8gpp4mhxue69uhhytnc9e3k7mgpz4mhxue69uhkg6nzv9ejuumpv34kytnrdaksjlyr9p';
+
+describe('nip19', () => {
+  it('decodes the NIP-19 npub vector', () => {
+    expect(decodeNpub(NPUB)).toBe(HEX);
+    expect(decodeNpub(NPUB.toUpperCase())).toBe(HEX);
+  });
+
+  it('encodes the NIP-19 npub vector', () => {
+    expect(encodeNpub(HEX)).toBe(NPUB);
+    expect(encodeNpub(HEX.toUpperCase())).toBe(NPUB);
+  });
+
+  it('decodes the NIP-19 nprofile vector with its relays', () => {
+    expect(decodeNprofile(NPROFILE)).toEqual({
+      pubkey: HEX,
+      relays: ['wss://r.x.com', 'wss://djbas.sadkb.com'],
+    });
+  });
+
+  it('rejects bad checksums and wrong prefixes', () => {
+    const corrupted = NPUB.slice(0, -1) + (NPUB.endsWith('6') ? '7' : '6');
+    expect(() => decodeNpub(corrupted)).toThrow(ValidationError);
+    expect(() => decodeNpub(NPROFILE)).toThrow(ValidationError);
+    expect(() => decodeNprofile(NPUB)).toThrow(ValidationError);
+  });
+
+  describe('parsePubkey', () => {
+    it('normalizes hex, npub and nprofile input', () => {
+      expect(parsePubkey(HEX.toUpperCase())).toBe(HEX);
+      expect(parsePubkey(` ${NPUB} `)).toBe(HEX);
+      expect(parsePubkey(NPROFILE)).toBe(HEX);
+    });
+
+    it('names the parameter in errors', () => {
+      expect(() => parsePubkey('alice', 'target')).toThrow(
+        expect.objectContaining({ field: 'target' })
+      );
+      expect(() => parsePubkey('', 'target')).toThrow('target is required');
+    });
+  });
+});
@@ -0,0 +1,210 @@
+import type { ProfilePointer } from './types';
+import { ValidationError } from './errors';
+import { isValidPubkey, normalizePubkey } from './utils';
+
+/**
+ * Bech32 alphabet (BIP-173)
+ */
+const CHARSET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+
+/**
+ * Bech32 checksum generator constants
+ */
+const GENERATORS = [0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3];
+
+/**
+ * nprofile TLV types
+ */
+const TLV_SPECIAL = 0;
+const TLV_RELAY = 1;
+
+/**
+ * Formats accepted by parsePubkey, used in validation messages
+ */
+export const PUBKEY_FORMATS = '64-character hex, npub1... or nprofile1...';
+
+function polymod(values: number[]): number {
+  let chk = 1;
+  for (const value of values) {
+    const top = chk >>> 25;
+    chk = ((chk & 0x1ffffff) << 5) ^ value;
+    for (let i = 0; i < 5; i++) {
+      if ((top >>> i) & 1) chk ^= GENERATORS[i];
+    }
+  }
+  return chk >>> 0;
+}
+
+function expandPrefix(prefix: string): number[] {
+  const result: number[] = [];
+  for (let i = 0; i < prefix.length; i++) result.push(prefix.charCodeAt(i) >> 5);
+  result.push(0);
+  for (let i = 0; i < prefix.length; i++) result.push(prefix.charCodeAt(i) & 31);
+  return result;
+}
+
+/**
+ * Regroups bits (8-bit bytes <-> 5-bit words)
+ */
+function convertBits(data: number[], from: number, to: number, pad: boolean): number[] | null {
+  let acc = 0;
+  let bits = 0;
+  const result: number[] = [];
+  const maxValue = (1 << to) - 1;
+
+  for (const value of data) {
+    acc = (acc << from) | value;
+    bits += from;
+    while (bits >= to) {
+      bits -= to;
+      result.push((acc >> bits) & maxValue);
+    }
+  }
+
+  if (pad) {
+    if (bits > 0) result.push((acc << (to - bits)) & maxValue);
+  } else if (bits >= from || ((acc << (to - bits)) & maxValue) !== 0) {
+    return null;
+  }
+
+  return result;
+}
+
+/**
+ * Decodes a bech32 string
+ * No length limit - nprofile strings routinely exceed BIP-173's 90 characters.
+ * @returns Prefix and payload bytes, or null if malformed
+ */
+function bech32Decode(value: string): { prefix: string; bytes: number[] } | null {
+  if (value !== value.toLowerCase() && value !== value.toUpperCase()) return null;
+
+  const lower = value.toLowerCase();
+  const separator = lower.lastIndexOf('1');
+  if (separator < 1 || separator + 7 > lower.length) return null;
+
+  const prefix = lower.slice(0, separator);
+  const words: number[] = [];
+  for (const char of lower.slice(separator + 1)) {
+    const word = CHARSET.indexOf(char);
+    if (word === -1) return null;
+    words.push(word);
+  }
+
+  if (polymod([...expandPrefix(prefix), ...words]) !== 1) return null;
+
+  const bytes = convertBits(words.slice(0, -6), 5, 8, false);
+  return bytes ? { prefix, bytes } : null;
+}
+
+function bech32Encode(prefix: string, bytes: number[]): string {
+  const words = convertBits(bytes, 8, 5, true) ?? [];
+  const checksum = polymod([...expandPrefix(prefix), ...words, 0, 0, 0, 0, 0, 0]) ^ 1;
+  for (let i = 0; i < 6; i++) {
+    words.push((checksum >>> (5 * (5 - i))) & 31);
+  }
+  return `${prefix}1${words.map((word) => CHARSET[word]).join('')}`;
+}
+
+function toHex(bytes: number[]): string {
+  return bytes.map((byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Checks if a string looks like an npub (prefix only, not the checksum)
+ */
+export function isNpub(value: string): boolean {
+  return /^npub1/i.test(value);
+}
+
+/**
+ * Checks if a string looks like an nprofile (prefix only, not the checksum)
+ */
+export function isNprofile(value: string): boolean {
+  return /^nprofile1/i.test(value);
+}
+
+/**
+ * Decodes an npub to a hex pubkey
+ * @throws ValidationError if the string is not a valid npub
+ */
+export function decodeNpub(npub: string, paramName = 'pubkey'): string {
+  const decoded = bech32Decode(npub);
+  if (!decoded || decoded.prefix !== 'npub' || decoded.bytes.length !== 32) {
+    throw new ValidationError(
+      `${paramName} must be a valid npub1... bech32 string (32-byte pubkey)`,
+      paramName
+    );
+  }
+  return toHex(decoded.bytes);
+}
+
+/**
+ * Decodes an nprofile to a hex pubkey and relay hints (NIP-19 TLV)
+ * @throws ValidationError if the string is not a valid nprofile
+ */
+export function decodeNprofile(nprofile: string, paramName = 'pubkey'): ProfilePointer {
+  const invalid = () =>
+    new ValidationError(
+      `${paramName} must be a valid nprofile1... bech32 string with a 32-byte pubkey entry`,
+      paramName
+    );
+
+  const decoded = bech32Decode(nprofile);
+  if (!decoded || decoded.prefix !== 'nprofile') throw invalid();
+
+  const { bytes } = decoded;
+  let pubkey: string | null = null;
+  const relays: string[] = [];
+
+  for (let i = 0; i + 2 <= bytes.length; ) {
+    const type = bytes[i];
+    const length = bytes[i + 1];
+    const value = bytes.slice(i + 2, i + 2 + length);
+    if (value.length !== length) throw invalid();
+    i += 2 + length;
+
+    if (type === TLV_SPECIAL && length === 32 && pubkey === null) {
+      pubkey = toHex(value);
+    } else if (type === TLV_RELAY) {
+      relays.push(new TextDecoder().decode(new Uint8Array(value)));
+    }
+    // Unknown TLV types are ignored per NIP-19
+  }
+
+  if (!pubkey) throw invalid();
+  return { pubkey, relays };
+}
+
+/**
+ * Encodes a hex pubkey as npub
+ * @throws ValidationError if the pubkey is not 64-character hex
+ */
+export function encodeNpub(pubkey: string): string {
+  if (!isValidPubkey(pubkey)) {
+    throw new ValidationError('pubkey must be a valid 64-character hex string', 'pubkey');
+  }
+
+  const bytes: number[] = [];
+  for (let i = 0; i < 64; i += 2) {
+    bytes.push(parseInt(pubkey.slice(i, i + 2), 16));
+  }
+  return bech32Encode('npub', bytes);
+}
+
+/**
+ * Converts hex, npub or nprofile input to a normalized hex pubkey
+ * NIP-05 identifiers need a network lookup - use a Nip05Resolver for those.
+ * @throws ValidationError naming the accepted formats
+ */
+export function parsePubkey(value: string, paramName = 'pubkey'): string {
+  if (!value) {
+    throw new ValidationError(`${paramName} is required`, paramName);
+  }
+
+  const trimmed = value.trim();
+  if (isValidPubkey(trimmed)) return normalizePubkey(trimmed);
+  if (isNpub(trimmed)) return decodeNpub(trimmed, paramName);
+  if (isNprofile(trimmed)) return decodeNprofile(trimmed, paramName).pubkey;
+
+  throw new ValidationError(`${paramName} must be a ${PUBKEY_FORMATS} string`, paramName);
+}
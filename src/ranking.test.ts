@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_RANKING, grapeRank, personalizedPageRank, resolveRankingConfig } from './ranking';
+
+/**
+ * R -> A, B; A -> B, C; B -> C; C -> D; E -> A (E is unreachable from R)
+ */
+const EDGES: Record<string, string[]> = {
+  R: ['A', 'B'],
+  A: ['B', 'C'],
+  B: ['C'],
+  C: ['D'],
+  D: [],
+  E: ['A'],
+};
+const NODES = new Set(Object.keys(EDGES));
+const follows = (pubkey: string) => EDGES[pubkey] ?? [];
+const followers = (pubkey: string) => Object.keys(EDGES).filter((p) => EDGES[p].includes(pubkey));
+
+/**
+ * Pubkeys other than the root, highest score first
+ */
+const ranked = (scores: Map<string, number>) =>
+  Array.from(scores)
+    .filter(([pubkey]) => pubkey !== 'R')
+    .sort((a, b) => b[1] - a[1])
+    .map(([pubkey]) => pubkey);
+
+describe('personalizedPageRank', () => {
+  it('ranks pubkeys by the walk mass they receive', () => {
+    const scores = personalizedPageRank(NODES, 'R', follows, DEFAULT_RANKING);
+
+    expect(ranked(scores)).toEqual(['C', 'D', 'B', 'A', 'E']);
+    expect(scores.get('R')).toBe(1);
+    expect(scores.get('C')).toBe(1);
+    expect(scores.get('E')).toBe(0);
+  });
+
+  it('favours pubkeys close to the root with a lower damping', () => {
+    const config = resolveRankingConfig({ damping: 0.5 });
+    const scores = personalizedPageRank(NODES, 'R', follows, config);
+    const standard = personalizedPageRank(NODES, 'R', follows, DEFAULT_RANKING);
+
+    expect(ranked(scores)).toEqual(['B', 'A', 'C', 'D', 'E']);
+    expect(scores.get('D')).toBeLessThan(standard.get('D')!);
+  });
+
+  it('only walks as many steps as iterations', () => {
+    const config = resolveRankingConfig({ iterations: 1 });
+    const scores = personalizedPageRank(NODES, 'R', follows, config);
+    expect(Object.fromEntries(scores)).toEqual({ R: 1, A: 1, B: 1, C: 0, D: 0, E: 0 });
+  });
+});
+
+describe('grapeRank', () => {
+  it('ranks pubkeys by weighted ratings', () => {
+    const scores = grapeRank(NODES, 'R', followers, DEFAULT_RANKING);
+
+    expect(ranked(scores)).toEqual(['B', 'C', 'A', 'D', 'E']);
+    expect(scores.get('R')).toBe(1);
+    // Rated by the root only: 1 - rigor
+    expect(scores.get('A')).toBeCloseTo(0.75);
+    expect(scores.get('E')).toBe(0);
+  });
+
+  it('ignores ratings from anyone but the root with a damping of 0', () => {
+    const scores = grapeRank(NODES, 'R', followers, resolveRankingConfig({ damping: 0 }));
+    expect(Object.fromEntries(scores)).toEqual({ R: 1, A: 0.75, B: 0.75, C: 0, D: 0, E: 0 });
+  });
+
+  it('propagates one hop per iteration', () => {
+    const once = grapeRank(NODES, 'R', followers, resolveRankingConfig({ iterations: 1 }));
+    const twice = grapeRank(NODES, 'R', followers, resolveRankingConfig({ iterations: 2 }));
+
+    expect(once.get('C')).toBe(0);
+    expect(twice.get('C')).toBeGreaterThan(0);
+    expect(twice.get('D')).toBe(0);
+  });
+
+  it('lowers every score with a higher rigor', () => {
+    const strict = grapeRank(NODES, 'R', followers, resolveRankingConfig({ rigor: 0.5 }));
+    const standard = grapeRank(NODES, 'R', followers, DEFAULT_RANKING);
+
+    for (const pubkey of ['A', 'B', 'C', 'D']) {
+      expect(strict.get(pubkey)).toBeLessThan(standard.get(pubkey)!);
+    }
+  });
+});
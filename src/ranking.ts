@@ -0,0 +1,142 @@
+import type { RankingConfig } from './types';
+
+/**
+ * Default configuration for the pagerank and graperank algorithms
+ */
+export const DEFAULT_RANKING: RankingConfig = {
+  iterations: 20,
+  damping: 0.85,
+  rigor: 0.25,
+};
+
+/**
+ * Stop iterating once the total change between iterations drops below this
+ */
+const TOLERANCE = 1e-9;
+
+/**
+ * Merges a partial ranking configuration with the defaults
+ */
+export function resolveRankingConfig(config?: Partial<RankingConfig>): RankingConfig {
+  return { ...DEFAULT_RANKING, ...config };
+}
+
+/**
+ * Personalized PageRank rooted at a single pubkey
+ *
+ * Random walk over follow edges that jumps back to the root with
+ * probability `1 - damping` (and from pubkeys that follow nobody in the
+ * graph). Scores are scaled so that the highest-ranked pubkey other than
+ * the root gets 1; the root itself always gets 1.
+ *
+ * @param nodes - Pubkeys taking part in the walk (must include root)
+ * @param root - Pubkey the walk is personalized to
+ * @param follows - Outgoing edges of a pubkey
+ * @returns Score (0-1) per pubkey in `nodes`
+ */
+export function personalizedPageRank(
+  nodes: Set<string>,
+  root: string,
+  follows: (pubkey: string) => Iterable<string>,
+  config: RankingConfig
+): Map<string, number> {
+  const { damping } = config;
+  let ranks = new Map<string, number>([[root, 1]]);
+
+  for (let i = 0; i < config.iterations; i++) {
+    const next = new Map<string, number>([[root, 1 - damping]]);
+
+    for (const [pubkey, rank] of ranks) {
+      const targets = Array.from(follows(pubkey)).filter((pk) => nodes.has(pk));
+      if (targets.length === 0) {
+        // Dangling pubkey - its mass jumps back to the root
+        next.set(root, (next.get(root) ?? 0) + damping * rank);
+        continue;
+      }
+
+      const share = (damping * rank) / targets.length;
+      for (const target of targets) {
+        next.set(target, (next.get(target) ?? 0) + share);
+      }
+    }
+
+    const delta = totalChange(ranks, next);
+    ranks = next;
+    if (delta < TOLERANCE) break;
+  }
+
+  let max = 0;
+  for (const [pubkey, rank] of ranks) {
+    if (pubkey !== root && rank > max) max = rank;
+  }
+
+  const scores = new Map<string, number>();
+  for (const pubkey of nodes) {
+    const rank = ranks.get(pubkey) ?? 0;
+    scores.set(pubkey, pubkey === root ? 1 : max > 0 ? rank / max : 0);
+  }
+  return scores;
+}
+
+/**
+ * GrapeRank-style weighted propagation
+ *
+ * Every follow is a rating of 1, weighted by the follower's own
+ * influence (attenuated by `damping` for anyone but the root). A pubkey's
+ * influence is its certainty `1 - rigor ^ weight`, where `weight` is the
+ * sum of the weighted ratings it received. The root has influence 1.
+ *
+ * @param nodes - Pubkeys taking part in the propagation (must include root)
+ * @param root - Pubkey the ratings start from
+ * @param followers - Incoming edges of a pubkey
+ * @returns Influence (0-1) per pubkey in `nodes`
+ */
+export function grapeRank(
+  nodes: Set<string>,
+  root: string,
+  followers: (pubkey: string) => Iterable<string>,
+  config: RankingConfig
+): Map<string, number> {
+  const { damping, rigor } = config;
+  let influence = new Map<string, number>([[root, 1]]);
+
+  for (let i = 0; i < config.iterations; i++) {
+    const next = new Map<string, number>([[root, 1]]);
+
+    for (const pubkey of nodes) {
+      if (pubkey === root) continue;
+
+      let weight = 0;
+      for (const follower of followers(pubkey)) {
+        const rater = influence.get(follower);
+        if (!rater) continue;
+        weight += follower === root ? rater : rater * damping;
+      }
+      if (weight > 0) next.set(pubkey, 1 - Math.pow(rigor, weight));
+    }
+
+    const delta = totalChange(influence, next);
+    influence = next;
+    if (delta < TOLERANCE) break;
+  }
+
+  const scores = new Map<string, number>();
+  for (const pubkey of nodes) {
+    scores.set(pubkey, influence.get(pubkey) ?? 0);
+  }
+  return scores;
+}
+
+/**
+ * Sum of absolute differences between two score maps
+ */
+function totalChange(previous: Map<string, number>, next: Map<string, number>): number {
+  let delta = 0;
+  for (const [pubkey, value] of next) {
+    delta += Math.abs(value - (previous.get(pubkey) ?? 0));
+  }
+  for (const [pubkey, value] of previous) {
+    if (!next.has(pubkey)) delta += value;
+  }
+  return delta;
+}
@@ -8,7 +8,7 @@ import {
   type ReactNode,
 } from 'react';
 import { WoT } from '../wot';
-import type { WoTOptions, NostrWindow } from '../types';
+import type { WoTOptions } from '../types';
 
 /**
  * Extension connection state
@@ -51,6 +51,10 @@ interface WoTContextValue {
   wot: WoT | null;
   isReady: boolean;
   extension: ExtensionState;
+  /**
+   * Active pubkey - changes when the user switches accounts
+   */
+  myPubkey: string | null;
 }
 
 /**
@@ -72,19 +76,13 @@ export interface WoTProviderProps {
   children: ReactNode;
 }
 
-/**
- * Check if extension is available
- */
-function checkExtensionAvailable(): boolean {
-  if (typeof window === 'undefined') return false;
-  return !!(window as NostrWindow).nostr?.wot;
-}
-
 /**
  * WoT provider component
  *
  * Provides WoT instance to all children components.
- * Automatically detects extension availability.
+ * Follows the extension's availability and the active account through
+ * WoT events, so a late-injected extension or an account switch
+ * re-renders consumers.
  *
  * @example
  * ```tsx
@@ -117,25 +115,10 @@ export function WoTProvider({
 }: WoTProviderProps) {
   const [extensionState, setExtensionState] = useState<ExtensionConnectionState>('checking');
   const [isReady, setIsReady] = useState(false);
-
-  // Check extension availability
-  const checkExtension = useCallback(() => {
-    const available = checkExtensionAvailable();
-    setExtensionState(available ? 'connected' : 'not-available');
-    setIsReady(true);
-  }, []);
-
-  // Check on mount
-  useEffect(() => {
-    checkExtension();
-  }, [checkExtension]);
+  const [myPubkey, setMyPubkey] = useState<string | null>(null);
 
   // Create WoT instance
   const wot = useMemo(() => {
-    if (!isReady) {
-      return null;
-    }
-
     try {
       return new WoT(options);
     } catch (error) {
@@ -143,7 +126,6 @@ export function WoTProvider({
       return null;
     }
   }, [
-    isReady,
     options.oracle,
     options.myPubkey,
     options.maxHops,
@@ -152,6 +134,40 @@ export function WoTProvider({
     options.fallback?.oracle,
   ]);
 
+  // Follow extension and account changes - the extension may inject late
+  // or be enabled after page load
+  useEffect(() => {
+    if (!wot) {
+      setExtensionState('not-available');
+      setIsReady(true);
+      return;
+    }
+
+    let active = true;
+    const unsubscribes = [
+      wot.on('extension:connected', () => setExtensionState('connected')),
+      wot.on('extension:disconnected', () => setExtensionState('not-available')),
+      wot.on('pubkey:changed', ({ pubkey }) => setMyPubkey(pubkey)),
+    ];
+
+    Promise.all([wot.isUsingExtension(), wot.checkPubkey()]).then(([connected, pubkey]) => {
+      if (!active) return;
+      setExtensionState(connected ? 'connected' : 'not-available');
+      setMyPubkey(pubkey);
+      setIsReady(true);
+    });
+
+    return () => {
+      active = false;
+      unsubscribes.forEach((unsubscribe) => unsubscribe());
+    };
+  }, [wot]);
+
+  // Re-check now instead of waiting for the next poll
+  const refresh = useCallback(() => {
+    wot?.refresh();
+  }, [wot]);
+
   // Extension state for consumers
   const extension = useMemo<ExtensionState>(() => {
     const isConnected = extensionState === 'connected';
@@ -163,17 +179,18 @@ export function WoTProvider({
       isConnected,
       isChecking,
       isChecked,
-      refresh: checkExtension,
+      refresh,
     };
-  }, [extensionState, checkExtension]);
+  }, [extensionState, refresh]);
 
   const value = useMemo<WoTContextValue>(
     () => ({
       wot,
       isReady: isReady && wot !== null,
       extension,
+      myPubkey,
     }),
-    [wot, isReady, extension]
+    [wot, isReady, extension, myPubkey]
   );
 
   return <WoTContext.Provider value={value}>{children}</WoTContext.Provider>;
@@ -205,6 +222,19 @@ export function useWoTInstance(): WoT | null {
   return wot;
 }
 
+/**
+ * Hook to access the active pubkey
+ *
+ * Re-renders when the user switches accounts in their signer or the app
+ * calls `wot.setPubkey()`.
+ *
+ * @returns Active pubkey, or null if none is available
+ */
+export function useMyPubkey(): string | null {
+  const { myPubkey } = useWoTContext();
+  return myPubkey;
+}
+
 /**
  * Hook to access extension state
  *
@@ -1,6 +1,18 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useRef, type MutableRefObject } from 'react';
 import { useWoTContext } from './context';
-import type { DistanceResult, QueryOptions } from '../types';
+import type { DistanceResult, QueryOptions, ResultMeta, TrustThreshold } from '../types';
+import { hasThresholds } from '../utils';
+
+/**
+ * Aborts a hook's previous request and starts a new one
+ * @returns Signal for the new request
+ */
+function restart(controllerRef: MutableRefObject<AbortController | null>): AbortSignal {
+  controllerRef.current?.abort();
+  const controller = new AbortController();
+  controllerRef.current = controller;
+  return controller.signal;
+}
 
 /**
  * Result from useWoT hook
@@ -26,6 +38,11 @@ export interface UseWoTResult {
    * Full details (hops, paths, bridges, mutual)
    */
   details: DistanceResult | null;
+  /**
+   * Source and freshness of the distance. With `meta.error` set, the
+   * values are defaults: the target is unknown, not untrusted.
+   */
+  meta: ResultMeta | null;
   /**
    * Refetch data
    */
@@ -45,7 +62,7 @@ export interface UseWoTOptions extends QueryOptions {
 /**
  * Hook to get WoT data for a pubkey
  *
- * @param pubkey - Target pubkey
+ * @param pubkey - Target pubkey (hex, npub, nprofile or NIP-05)
  * @param options - Query options
  * @returns WoT data and loading state
  *
@@ -69,13 +86,14 @@ export interface UseWoTOptions extends QueryOptions {
  * ```
  */
 export function useWoT(pubkey: string, options?: UseWoTOptions): UseWoTResult {
-  const { wot, isReady } = useWoTContext();
+  const { wot, isReady, myPubkey } = useWoTContext();
   const [distance, setDistance] = useState<number | null>(null);
   const [score, setScore] = useState(0);
   const [details, setDetails] = useState<DistanceResult | null>(null);
+  const [meta, setMeta] = useState<ResultMeta | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<Error | null>(null);
-  const fetchIdRef = useRef(0);
+  const controllerRef = useRef<AbortController | null>(null);
 
   const skip = options?.skip ?? false;
 
@@ -85,36 +103,43 @@ export function useWoT(pubkey: string, options?: UseWoTOptions): UseWoTResult {
       return;
     }
 
-    const fetchId = ++fetchIdRef.current;
+    const signal = restart(controllerRef);
     setLoading(true);
     setError(null);
 
     try {
+      // Failed lookups come back as defaults with meta.error
       const [distResult, scoreResult, detailsResult] = await Promise.all([
-        wot.getDistance(pubkey, options),
-        wot.getTrustScore(pubkey),
-        wot.getDetails(pubkey, options),
+        wot.getDistance(pubkey, { ...options, signal, withMeta: true }),
+        wot.getTrustScore(pubkey, { signal, withMeta: true }),
+        wot.getDetails(pubkey, { ...options, signal, withMeta: true }),
       ]);
 
-      // Only update if this is still the latest request
-      if (fetchId === fetchIdRef.current) {
-        setDistance(distResult);
-        setScore(scoreResult);
-        setDetails(detailsResult);
+      // Only update if this request was not aborted by a newer one
+      if (!signal.aborted) {
+        setDistance(distResult.value);
+        setScore(scoreResult.value);
+        setDetails(detailsResult.value);
+        setMeta(distResult.meta);
+        setError(
+          distResult.meta.error ?? scoreResult.meta.error ?? detailsResult.meta.error ?? null
+        );
         setLoading(false);
       }
     } catch (err) {
-      if (fetchId === fetchIdRef.current) {
+      if (!signal.aborted) {
         setError(err instanceof Error ? err : new Error('Unknown error'));
         setLoading(false);
       }
     }
-  }, [wot, pubkey, skip, options?.maxHops, options?.timeout]);
+  }, [wot, myPubkey, pubkey, skip, options?.maxHops, options?.timeout]);
 
+  // Abort the request on unmount and when its inputs change
   useEffect(() => {
     if (isReady && !skip) {
       fetchData();
     }
+    return () => controllerRef.current?.abort();
   }, [isReady, fetchData, skip]);
 
   const refetch = useCallback(() => {
@@ -127,6 +152,7 @@ export function useWoT(pubkey: string, options?: UseWoTOptions): UseWoTResult {
     loading,
     error,
     details,
+    meta,
     refetch,
   };
 }
@@ -139,6 +165,10 @@ export interface UseIsInWoTResult {
    * Whether target is in WoT
    */
   inWoT: boolean;
+  /**
+   * Thresholds (minPaths, minDistinctBridges, minScore) the target failed
+   */
+  failedThresholds: TrustThreshold[];
   /**
    * Whether data is currently loading
    */
@@ -156,14 +186,14 @@ export interface UseIsInWoTResult {
 /**
  * Hook to check if a pubkey is in your WoT
  *
- * @param pubkey - Target pubkey
+ * @param pubkey - Target pubkey (hex, npub, nprofile or NIP-05)
  * @param options - Query options
  * @returns Whether target is in WoT
  *
  * @example
  * ```tsx
  * function TrustBadge({ pubkey }) {
- *   const { inWoT, loading } = useIsInWoT(pubkey, { maxHops: 2 });
+ *   const { inWoT, loading } = useIsInWoT(pubkey, { maxHops: 2, minDistinctBridges: 2 });
  *
  *   if (loading) return null;
  *
@@ -175,11 +205,12 @@ export function useIsInWoT(
   pubkey: string,
   options?: UseWoTOptions
 ): UseIsInWoTResult {
-  const { wot, isReady } = useWoTContext();
+  const { wot, isReady, myPubkey } = useWoTContext();
   const [inWoT, setInWoT] = useState(false);
+  const [failedThresholds, setFailedThresholds] = useState<TrustThreshold[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<Error | null>(null);
-  const fetchIdRef = useRef(0);
+  const controllerRef = useRef<AbortController | null>(null);
 
   const skip = options?.skip ?? false;
 
@@ -189,29 +220,52 @@ export function useIsInWoT(
       return;
     }
 
-    const fetchId = ++fetchIdRef.current;
+    const signal = restart(controllerRef);
     setLoading(true);
     setError(null);
 
     try {
-      const result = await wot.isInMyWoT(pubkey, options);
+      let result: boolean;
+      let failed: TrustThreshold[] = [];
+      if (hasThresholds(options)) {
+        // batchCheck reports which threshold failed
+        const results = await wot.batchCheck([pubkey], { ...options, signal, withMeta: false });
+        const [checked] = Array.from(results.values());
+        result = checked?.inWoT ?? false;
+        failed = checked?.failedThresholds ?? [];
+      } else {
+        result = await wot.isInMyWoT(pubkey, { ...options, signal, withMeta: false });
+      }
 
-      if (fetchId === fetchIdRef.current) {
+      if (!signal.aborted) {
         setInWoT(result);
+        setFailedThresholds(failed);
         setLoading(false);
       }
     } catch (err) {
-      if (fetchId === fetchIdRef.current) {
+      if (!signal.aborted) {
         setError(err instanceof Error ? err : new Error('Unknown error'));
         setLoading(false);
       }
     }
-  }, [wot, pubkey, skip, options?.maxHops, options?.timeout]);
-
+  }, [
+    wot,
+    myPubkey,
+    pubkey,
+    skip,
+    options?.maxHops,
+    options?.timeout,
+    options?.minPaths,
+    options?.minDistinctBridges,
+    options?.minScore,
+  ]);
+
+  // Abort the request on unmount and when its inputs change
   useEffect(() => {
     if (isReady && !skip) {
       fetchData();
     }
+    return () => controllerRef.current?.abort();
   }, [isReady, fetchData, skip]);
 
   const refetch = useCallback(() => {
@@ -220,6 +274,7 @@ export function useIsInWoT(
 
   return {
     inWoT,
+    failedThresholds,
     loading,
     error,
     refetch,
@@ -251,7 +306,7 @@ export interface UseTrustScoreResult {
 /**
  * Hook to get trust score for a pubkey
  *
- * @param pubkey - Target pubkey
+ * @param pubkey - Target pubkey (hex, npub, nprofile or NIP-05)
  * @param options - Query options
  * @returns Trust score
  *
@@ -270,11 +325,11 @@ export function useTrustScore(
   pubkey: string,
   options?: UseWoTOptions
 ): UseTrustScoreResult {
-  const { wot, isReady } = useWoTContext();
+  const { wot, isReady, myPubkey } = useWoTContext();
   const [score, setScore] = useState(0);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<Error | null>(null);
-  const fetchIdRef = useRef(0);
+  const controllerRef = useRef<AbortController | null>(null);
 
   const skip = options?.skip ?? false;
 
@@ -284,29 +339,31 @@ export function useTrustScore(
       return;
     }
 
-    const fetchId = ++fetchIdRef.current;
+    const signal = restart(controllerRef);
     setLoading(true);
     setError(null);
 
     try {
-      const result = await wot.getTrustScore(pubkey);
+      const result = await wot.getTrustScore(pubkey, { signal });
 
-      if (fetchId === fetchIdRef.current) {
+      if (!signal.aborted) {
         setScore(result);
         setLoading(false);
       }
     } catch (err) {
-      if (fetchId === fetchIdRef.current) {
+      if (!signal.aborted) {
         setError(err instanceof Error ? err : new Error('Unknown error'));
         setLoading(false);
       }
     }
-  }, [wot, pubkey, skip]);
+  }, [wot, myPubkey, pubkey, skip]);
 
+  // Abort the request on unmount and when its inputs change
   useEffect(() => {
     if (isReady && !skip) {
       fetchData();
     }
+    return () => controllerRef.current?.abort();
   }, [isReady, fetchData, skip]);
 
   const refetch = useCallback(() => {
@@ -326,7 +383,7 @@ export function useTrustScore(
  */
 export interface UseBatchWoTResult {
   /**
-   * Map of pubkey to result
+   * Map of pubkey (as passed in) to result
    */
   results: Map<
     string,
@@ -344,6 +401,11 @@ export interface UseBatchWoTResult {
    * Error if query failed
    */
   error: Error | null;
+  /**
+   * Source and freshness of the results. With `meta.error` set, the
+   * results are empty: the pubkeys are unknown, not untrusted.
+   */
+  meta: ResultMeta | null;
   /**
    * Refetch data
    */
@@ -353,7 +415,7 @@ export interface UseBatchWoTResult {
 /**
  * Hook to batch check multiple pubkeys
  *
- * @param pubkeys - Array of target pubkeys
+ * @param pubkeys - Array of target pubkeys (hex, npub, nprofile or NIP-05)
  * @param options - Query options
  * @returns Map of results
  *
@@ -381,13 +443,14 @@ export function useBatchWoT(
   pubkeys: string[],
   options?: UseWoTOptions
 ): UseBatchWoTResult {
-  const { wot, isReady } = useWoTContext();
+  const { wot, isReady, myPubkey } = useWoTContext();
   const [results, setResults] = useState<UseBatchWoTResult['results']>(
     new Map()
   );
+  const [meta, setMeta] = useState<ResultMeta | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<Error | null>(null);
-  const fetchIdRef = useRef(0);
+  const controllerRef = useRef<AbortController | null>(null);
 
   const skip = options?.skip ?? false;
   const pubkeysKey = pubkeys.join(',');
@@ -398,40 +461,49 @@ export function useBatchWoT(
       return;
     }
 
-    const fetchId = ++fetchIdRef.current;
+    const signal = restart(controllerRef);
     setLoading(true);
     setError(null);
 
     try {
-      const batchResults = await wot.batchCheck(pubkeys, options);
+      // Resolve npub/NIP-05 input so results can be keyed by the caller's strings
+      const resolved = await wot.resolvePubkeys(pubkeys, { signal });
+      const batch = await wot.batchCheck(resolved, { ...options, signal, withMeta: true });
 
-      if (fetchId === fetchIdRef.current) {
+      if (!signal.aborted) {
         const mapped = new Map<
           string,
           { distance: number | null; score: number; inWoT: boolean }
         >();
-        for (const [pk, result] of batchResults) {
-          mapped.set(pk, {
-            distance: result.distance,
-            score: result.score,
-            inWoT: result.inWoT,
-          });
-        }
+        pubkeys.forEach((pk, i) => {
+          const result = batch.value.get(resolved[i]);
+          if (result) {
+            mapped.set(pk, {
+              distance: result.distance,
+              score: result.score,
+              inWoT: result.inWoT,
+            });
+          }
+        });
         setResults(mapped);
+        setMeta(batch.meta);
+        setError(batch.meta.error ?? null);
         setLoading(false);
       }
     } catch (err) {
-      if (fetchId === fetchIdRef.current) {
+      if (!signal.aborted) {
         setError(err instanceof Error ? err : new Error('Unknown error'));
         setLoading(false);
       }
     }
-  }, [wot, pubkeysKey, skip, options?.maxHops, options?.timeout]);
+  }, [wot, myPubkey, pubkeysKey, skip, options?.maxHops, options?.timeout]);
 
+  // Abort the request on unmount and when its inputs change
   useEffect(() => {
     if (isReady && !skip) {
       fetchData();
     }
+    return () => controllerRef.current?.abort();
   }, [isReady, fetchData, skip]);
 
   const refetch = useCallback(() => {
@@ -442,6 +514,7 @@ export function useBatchWoT(
     results,
     loading,
     error,
+    meta,
     refetch,
   };
 }
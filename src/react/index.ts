@@ -4,6 +4,7 @@ export {
   useWoTContext,
   useWoTInstance,
   useExtension,
+  useMyPubkey,
   type WoTProviderProps,
   type ExtensionState,
   type ExtensionConnectionState,
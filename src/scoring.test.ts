@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_SCORING, computeTrustScore, resolveScoringConfig } from './scoring';
+
+describe('computeTrustScore', () => {
+  it('weights scores by distance', () => {
+    expect(computeTrustScore({ hops: 0 })).toBe(1);
+    expect(computeTrustScore({ hops: 1 })).toBe(1);
+    expect(computeTrustScore({ hops: 2 })).toBe(0.5);
+    expect(computeTrustScore({ hops: 4 })).toBe(0.1);
+  });
+
+  it('scores hops without a positive weight as 0', () => {
+    expect(computeTrustScore({ hops: 5, paths: 10, mutual: true })).toBe(0);
+
+    const config = resolveScoringConfig({ distanceWeights: { 1: 1, 2: -0.5 } });
+    expect(computeTrustScore({ hops: 2, mutual: true }, config)).toBe(0);
+    expect(computeTrustScore({ hops: 3 }, config)).toBe(0);
+  });
+
+  it('adds a capped bonus per path after the first', () => {
+    expect(computeTrustScore({ hops: 3, paths: 0 })).toBe(0.25);
+    expect(computeTrustScore({ hops: 3, paths: 1 })).toBe(0.25);
+    expect(computeTrustScore({ hops: 3, paths: 3 })).toBeCloseTo(0.45);
+    expect(computeTrustScore({ hops: 3, paths: 100 })).toBe(0.75);
+  });
+
+  it('adds the mutual bonus and clamps to 0-1', () => {
+    expect(computeTrustScore({ hops: 3, mutual: true })).toBe(0.75);
+    expect(computeTrustScore({ hops: 2, paths: 10, mutual: true })).toBe(1);
+
+    const config = resolveScoringConfig({ mutualBonus: -1 });
+    expect(computeTrustScore({ hops: 2, mutual: true }, config)).toBe(0);
+  });
+});
+
+describe('resolveScoringConfig', () => {
+  it('replaces the distance weights as a whole', () => {
+    expect(resolveScoringConfig()).toEqual(DEFAULT_SCORING);
+
+    const config = resolveScoringConfig({ distanceWeights: { 1: 0.9 }, pathBonus: 0 });
+    expect(config).toEqual({ ...DEFAULT_SCORING, distanceWeights: { 1: 0.9 }, pathBonus: 0 });
+    expect(computeTrustScore({ hops: 2 }, config)).toBe(0);
+    expect(computeTrustScore({ hops: 1, paths: 5 }, config)).toBe(0.9);
+  });
+});
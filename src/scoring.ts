@@ -0,0 +1,45 @@
+import type { ScoreInput, ScoringConfig } from './types';
+
+/**
+ * Default scoring configuration (matches the extension defaults)
+ */
+export const DEFAULT_SCORING: ScoringConfig = {
+  distanceWeights: { 1: 1.0, 2: 0.5, 3: 0.25, 4: 0.1 },
+  mutualBonus: 0.5,
+  pathBonus: 0.1,
+  maxPathBonus: 0.5,
+};
+
+/**
+ * Merges a partial scoring configuration with the defaults
+ */
+export function resolveScoringConfig(config?: Partial<ScoringConfig>): ScoringConfig {
+  return { ...DEFAULT_SCORING, ...config };
+}
+
+/**
+ * Computes a trust score from distance, path count and mutual flag
+ *
+ * `score = distanceWeight + pathBonus + mutualBonus`, clamped to 0-1.
+ * The path bonus grows by `pathBonus` for every path after the first,
+ * up to `maxPathBonus`. Hops without a configured weight score 0.
+ *
+ * @returns Trust score between 0 and 1
+ */
+export function computeTrustScore(
+  input: ScoreInput,
+  config: ScoringConfig = DEFAULT_SCORING
+): number {
+  const { hops, paths = 1, mutual = false } = input;
+
+  // Yourself
+  if (hops === 0) return 1;
+
+  const weight = config.distanceWeights[hops] ?? 0;
+  if (weight <= 0) return 0;
+
+  const pathBonus = Math.min(Math.max(paths - 1, 0) * config.pathBonus, config.maxPathBonus);
+  const mutualBonus = mutual ? config.mutualBonus : 0;
+
+  return Math.min(1, Math.max(0, weight + pathBonus + mutualBonus));
+}
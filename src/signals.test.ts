@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_SIGNAL_POLICY,
+  MUTE_LIST_KIND,
+  REPORT_KIND,
+  SignalStore,
+  resolveSignalPolicy,
+} from './signals';
+import type { NostrEvent } from './types';
+
+const pk = (c: string) => c.repeat(64);
+const [ME, A, B, C, T, U] = ['0', 'a', 'b', 'c', 'd', 'e'].map(pk);
+
+function event(
+  kind: number,
+  author: string,
+  targets: string[],
+  createdAt = 1,
+  id = pk('0')
+): NostrEvent {
+  return {
+    id,
+    pubkey: author,
+    created_at: createdAt,
+    kind,
+    tags: targets.map((p) => ['p', p]),
+    content: '',
+  };
+}
+
+const mutes = (author: string, targets: string[], createdAt?: number, id?: string) =>
+  event(MUTE_LIST_KIND, author, targets, createdAt, id);
+const report = (author: string, targets: string[]) => event(REPORT_KIND, author, targets);
+
+describe('SignalStore', () => {
+  describe('addEvent', () => {
+    it('indexes NIP-51 mute lists and NIP-56 reports', () => {
+      const store = new SignalStore();
+      expect(store.addEvents([mutes(A, [T, U]), report(B, [T])])).toBe(2);
+
+      expect(store.getMutedBy(T)).toEqual([A]);
+      expect(store.getMutedBy(U.toUpperCase())).toEqual([A]);
+      expect(store.getReportedBy(T)).toEqual([B]);
+      expect(store.hasSignals(T)).toBe(true);
+      expect(store.hasSignals(C)).toBe(false);
+    });
+
+    it('replaces a mute list with a newer one', () => {
+      const store = new SignalStore();
+      store.addEvent(mutes(A, [T], 1));
+
+      expect(store.addEvent(mutes(A, [U], 2))).toBe(true);
+      expect(store.getMutedBy(T)).toEqual([]);
+      expect(store.hasSignals(T)).toBe(false);
+      expect(store.getMutedBy(U)).toEqual([A]);
+
+      expect(store.addEvent(mutes(A, [T], 1))).toBe(false);
+      expect(store.addEvent(mutes(A, [T], 2, pk('1')))).toBe(false);
+      expect(store.getMutedBy(U)).toEqual([A]);
+    });
+
+    it('counts a reporter once per target', () => {
+      const store = new SignalStore();
+      expect(store.addEvent(report(B, [T]))).toBe(true);
+      expect(store.addEvent(report(B, [T]))).toBe(false);
+      expect(store.addEvent(report(B, [T, U]))).toBe(true);
+      expect(store.getReportedBy(T)).toEqual([B]);
+    });
+
+    it('ignores other kinds, invalid authors and invalid tags', () => {
+      const store = new SignalStore();
+      expect(store.addEvent(event(1, A, [T]))).toBe(false);
+      expect(store.addEvent(mutes('alice', [T]))).toBe(false);
+      expect(store.addEvent(mutes(A, ['not-a-pubkey']))).toBe(true);
+      expect(store.addEvent(report(B, ['not-a-pubkey']))).toBe(false);
+      expect(store.hasSignals(T)).toBe(false);
+    });
+
+    it('clears every signal', () => {
+      const store = new SignalStore();
+      store.addEvents([mutes(A, [T]), report(B, [T])]);
+      store.clear();
+      expect(store.hasSignals(T)).toBe(false);
+      expect(store.addEvent(mutes(A, [T], 0))).toBe(true);
+    });
+  });
+
+  describe('summarize', () => {
+    const policy = resolveSignalPolicy({ mutePenalty: 0.25, reportPenalty: 0.1 });
+
+    it('adds up penalties from the root and the network only', () => {
+      const store = new SignalStore();
+      store.addEvents([mutes(A, [T]), mutes(C, [T]), report(B, [T]), report(ME, [U])]);
+
+      expect(store.summarize(T, ME, new Set([A, B]), policy)).toEqual({
+        mutedBy: [A],
+        reportedBy: [B],
+        penalty: 0.35,
+        blockedBy: null,
+      });
+    });
+
+    it('blocks on own mutes and reports', () => {
+      const store = new SignalStore();
+      store.addEvents([mutes(ME, [T]), report(ME, [U]), mutes(A, [U])]);
+      const network = new Set([A]);
+
+      expect(store.summarize(T, ME, network, policy).blockedBy).toEqual({
+        reason: 'mute',
+        pubkeys: [ME],
+      });
+      expect(store.summarize(U, ME, network, policy).blockedBy).toEqual({
+        reason: 'report',
+        pubkeys: [ME],
+      });
+
+      const lenient = { ...policy, blockOnOwnSignal: false };
+      expect(store.summarize(T, ME, network, lenient)).toMatchObject({
+        penalty: 0.25,
+        blockedBy: null,
+      });
+    });
+
+    it('blocks once enough of the network mutes or reports', () => {
+      const store = new SignalStore();
+      store.addEvents([mutes(A, [T]), mutes(B, [T]), report(A, [U]), report(B, [U])]);
+      const network = new Set([A, B]);
+
+      expect(store.summarize(T, ME, network, policy).blockedBy).toBeNull();
+
+      const strict = { ...policy, muteBlockThreshold: 2, reportBlockThreshold: 2 };
+      expect(store.summarize(T, ME, network, strict).blockedBy).toEqual({
+        reason: 'mute',
+        pubkeys: [A, B],
+      });
+      expect(store.summarize(U, ME, network, strict).blockedBy).toEqual({
+        reason: 'report',
+        pubkeys: [A, B],
+      });
+
+      // A threshold of 0 never blocks
+      const off = { ...policy, muteBlockThreshold: 0 };
+      expect(store.summarize(T, ME, network, off).blockedBy).toBeNull();
+    });
+  });
+
+  it('resolves a partial policy over the defaults', () => {
+    expect(resolveSignalPolicy()).toEqual(DEFAULT_SIGNAL_POLICY);
+    expect(resolveSignalPolicy({ networkHops: 2 })).toEqual({
+      ...DEFAULT_SIGNAL_POLICY,
+      networkHops: 2,
+    });
+  });
+});
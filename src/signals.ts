@@ -0,0 +1,210 @@
+import type { BlockedBy, NostrEvent, SignalPolicy, SignalSummary } from './types';
+import { isValidPubkey, normalizePubkey } from './utils';
+
+/**
+ * Mute list kind (NIP-51)
+ */
+export const MUTE_LIST_KIND = 10000;
+
+/**
+ * Report kind (NIP-56)
+ */
+export const REPORT_KIND = 1984;
+
+/**
+ * Default negative signal policy
+ */
+export const DEFAULT_SIGNAL_POLICY: SignalPolicy = {
+  networkHops: 1,
+  mutePenalty: 0.5,
+  reportPenalty: 0.2,
+  blockOnOwnSignal: true,
+  muteBlockThreshold: 3,
+  reportBlockThreshold: 3,
+};
+
+/**
+ * Merges a partial signal policy with the defaults
+ */
+export function resolveSignalPolicy(policy?: Partial<SignalPolicy>): SignalPolicy {
+  return { ...DEFAULT_SIGNAL_POLICY, ...policy };
+}
+
+/**
+ * Head of a pubkey's mute list (latest kind 10000 event seen)
+ */
+interface MuteListHead {
+  id: string;
+  createdAt: number;
+  muted: Set<string>;
+}
+
+/**
+ * In-memory store of negative signals: NIP-51 mute lists and NIP-56 reports
+ *
+ * Mute lists are replaceable: only the newest event per author is kept.
+ * Only public `p` tags are read - encrypted private mutes are ignored.
+ * A reporter counts once per target, whatever the number of reports.
+ * Event signatures are NOT verified.
+ *
+ * @example
+ * ```ts
+ * const signals = new SignalStore();
+ * signals.addEvents([...muteLists, ...reports]);
+ *
+ * signals.getMutedBy('def456...'); // ['abc123...']
+ * ```
+ */
+export class SignalStore {
+  private readonly muteLists = new Map<string, MuteListHead>();
+  private readonly mutedBy = new Map<string, Set<string>>();
+  private readonly reportedBy = new Map<string, Set<string>>();
+
+  /**
+   * Ingest a kind 10000 mute list or kind 1984 report
+   * @returns true if the event changed the store
+   */
+  addEvent(event: NostrEvent): boolean {
+    if (!event || !isValidPubkey(event.pubkey)) return false;
+
+    if (event.kind === MUTE_LIST_KIND) return this.addMuteList(event);
+    if (event.kind === REPORT_KIND) return this.addReport(event);
+    return false;
+  }
+
+  /**
+   * Ingest multiple mute list and report events
+   * @returns Number of events that changed the store
+   */
+  addEvents(events: Iterable<NostrEvent>): number {
+    let applied = 0;
+    for (const event of events) {
+      if (this.addEvent(event)) applied++;
+    }
+    return applied;
+  }
+
+  /**
+   * Pubkeys whose mute list contains the target
+   */
+  getMutedBy(target: string): string[] {
+    return Array.from(this.mutedBy.get(normalizePubkey(target)) ?? []);
+  }
+
+  /**
+   * Pubkeys that reported the target
+   */
+  getReportedBy(target: string): string[] {
+    return Array.from(this.reportedBy.get(normalizePubkey(target)) ?? []);
+  }
+
+  /**
+   * Check whether anyone muted or reported the target
+   */
+  hasSignals(target: string): boolean {
+    const normalized = normalizePubkey(target);
+    return this.mutedBy.has(normalized) || this.reportedBy.has(normalized);
+  }
+
+  /**
+   * Remove all signals
+   */
+  clear(): void {
+    this.muteLists.clear();
+    this.mutedBy.clear();
+    this.reportedBy.clear();
+  }
+
+  /**
+   * Sums up the signals against a target
+   * @param target - Target pubkey (hex)
+   * @param root - Your pubkey
+   * @param network - Pubkeys whose signals count (besides root)
+   * @param policy - Penalties and block thresholds
+   */
+  summarize(
+    target: string,
+    root: string,
+    network: Set<string>,
+    policy: SignalPolicy
+  ): SignalSummary {
+    const counts = (pubkey: string) => pubkey === root || network.has(pubkey);
+    const mutedBy = this.getMutedBy(target).filter(counts);
+    const reportedBy = this.getReportedBy(target).filter(counts);
+
+    const penalty = mutedBy.length * policy.mutePenalty + reportedBy.length * policy.reportPenalty;
+
+    let blockedBy: BlockedBy | null = null;
+    if (policy.blockOnOwnSignal && mutedBy.includes(root)) {
+      blockedBy = { reason: 'mute', pubkeys: [root] };
+    } else if (policy.blockOnOwnSignal && reportedBy.includes(root)) {
+      blockedBy = { reason: 'report', pubkeys: [root] };
+    } else if (policy.muteBlockThreshold > 0 && mutedBy.length >= policy.muteBlockThreshold) {
+      blockedBy = { reason: 'mute', pubkeys: mutedBy };
+    } else if (
+      policy.reportBlockThreshold > 0 &&
+      reportedBy.length >= policy.reportBlockThreshold
+    ) {
+      blockedBy = { reason: 'report', pubkeys: reportedBy };
+    }
+
+    return { mutedBy, reportedBy, penalty, blockedBy };
+  }
+
+  private addMuteList(event: NostrEvent): boolean {
+    const author = normalizePubkey(event.pubkey);
+    const head = this.muteLists.get(author);
+    if (head) {
+      if (event.created_at < head.createdAt) return false;
+      if (event.created_at === head.createdAt && event.id >= head.id) return false;
+    }
+
+    const muted = new Set<string>();
+    for (const tag of event.tags ?? []) {
+      if (tag[0] === 'p' && typeof tag[1] === 'string' && isValidPubkey(tag[1])) {
+        muted.add(normalizePubkey(tag[1]));
+      }
+    }
+
+    // Replace the previous list in the reverse index
+    for (const target of head?.muted ?? []) {
+      const authors = this.mutedBy.get(target);
+      authors?.delete(author);
+      if (authors?.size === 0) this.mutedBy.delete(target);
+    }
+    for (const target of muted) {
+      addTo(this.mutedBy, target, author);
+    }
+
+    this.muteLists.set(author, { id: event.id, createdAt: event.created_at, muted });
+    return true;
+  }
+
+  private addReport(event: NostrEvent): boolean {
+    const reporter = normalizePubkey(event.pubkey);
+    let changed = false;
+
+    // Reports of notes also carry a `p` tag for the note's author
+    for (const tag of event.tags ?? []) {
+      if (tag[0] === 'p' && typeof tag[1] === 'string' && isValidPubkey(tag[1])) {
+        changed = addTo(this.reportedBy, normalizePubkey(tag[1]), reporter) || changed;
+      }
+    }
+    return changed;
+  }
+}
+
+/**
+ * Adds a value to a Map of Sets
+ * @returns true if the value was new
+ */
+function addTo(index: Map<string, Set<string>>, key: string, value: string): boolean {
+  let values = index.get(key);
+  if (!values) {
+    values = new Set();
+    index.set(key, values);
+  }
+  if (values.has(value)) return false;
+  values.add(value);
+  return true;
+}
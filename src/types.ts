@@ -1,3 +1,7 @@
+import type { LocalGraph } from './graph';
+import type { Limiter } from './limiter';
+import type { SignalStore } from './signals';
+
 /**
  * Extension connection status
  */
@@ -8,7 +12,47 @@ export type ExtensionConnectionStatus =
   | 'not-browser';   // SSR/Node environment
 
 /**
- * Configuration for trust score calculation (used by extension)
+ * Trust score algorithm
+ * - `hop-decay` - Distance weight plus path and mutual bonuses (extension behavior)
+ * - `pagerank` - Personalized PageRank rooted at your pubkey
+ * - `graperank` - GrapeRank-style weighted propagation of follow ratings
+ *
+ * `pagerank` and `graperank` need a local graph backend.
+ */
+export type TrustAlgorithm = 'hop-decay' | 'pagerank' | 'graperank';
+
+/**
+ * Graph ranking algorithms (computed over a local graph)
+ */
+export type RankingAlgorithm = Exclude<TrustAlgorithm, 'hop-decay'>;
+
+/**
+ * Configuration for the pagerank and graperank algorithms
+ */
+export interface RankingConfig {
+  /**
+   * Maximum number of iterations
+   * @default 20
+   */
+  iterations: number;
+  /**
+   * PageRank damping factor (probability of following an edge rather
+   * than jumping back to the root). For graperank, the attenuation of
+   * ratings from anyone but the root.
+   * @default 0.85
+   */
+  damping: number;
+  /**
+   * GrapeRank rigor (0-1): higher values need more weighted follows
+   * before a pubkey is trusted
+   * @default 0.25
+   */
+  rigor: number;
+}
+
+/**
+ * Configuration for trust score calculation
+ * Used by the extension, and by the SDK for oracle and local graph results
  */
 export interface ScoringConfig {
   /**
@@ -30,6 +74,24 @@ export interface ScoringConfig {
   maxPathBonus: number;
 }
 
+/**
+ * Inputs for trust score calculation
+ */
+export interface ScoreInput {
+  /**
+   * Number of hops to target
+   */
+  hops: number;
+  /**
+   * Number of distinct paths to target
+   */
+  paths?: number;
+  /**
+   * Whether target follows the root back
+   */
+  mutual?: boolean;
+}
+
 /**
  * Fallback options when extension is not available
  */
@@ -65,7 +127,7 @@ export interface WoTOptions {
    */
   oracle?: string;
   /**
-   * Your pubkey in hex format
+   * Your pubkey (hex, npub or nprofile)
    * Optional - will be fetched from extension when available
    */
   myPubkey?: string;
@@ -79,6 +141,17 @@ export interface WoTOptions {
    * @default 5000
    */
   timeout?: number;
+  /**
+   * Timeout for calls into the browser extension in milliseconds
+   * @default the `timeout` option
+   */
+  extensionTimeout?: number;
+  /**
+   * Continue with the next backend (usually the oracle) when the extension
+   * times out or throws, even with the 'first-available' strategy
+   * @default false
+   */
+  extensionFallback?: boolean;
   /**
    * Fallback configuration when extension is not available.
    * Recommended to provide myPubkey here for oracle fallback.
@@ -89,6 +162,367 @@ export interface WoTOptions {
    * Only needed if you want to detect "installed but not enabled" state
    */
   extensionId?: string;
+  /**
+   * Ordered list of graph backends
+   * @default ['extension', 'oracle']
+   */
+  backends?: BackendSpec[];
+  /**
+   * Default strategy for choosing between backends
+   * @default 'first-available'
+   */
+  strategy?: BackendStrategy;
+  /**
+   * Trust score configuration for oracle and local graph results
+   * Merged with the defaults, which match the extension's defaults.
+   * Extension results keep the extension's own scores.
+   */
+  scoring?: Partial<ScoringConfig>;
+  /**
+   * Default trust score algorithm
+   * @default 'hop-decay'
+   */
+  algorithm?: TrustAlgorithm;
+  /**
+   * Iterations, damping and rigor for the pagerank and graperank algorithms
+   */
+  ranking?: Partial<RankingConfig>;
+  /**
+   * Result cache configuration, or false to disable caching
+   * @default { maxSize: 1000, ttl: 60000 }
+   */
+  cache?: CacheOptions | false;
+  /**
+   * Auto-batching of single getDistance/getTrustScore calls, or false to disable
+   * @default { window: 10, maxBatchSize: 100 }
+   */
+  batching?: BatchingOptions | false;
+  /**
+   * Maximum number of oracle /batch chunks (50 pubkeys each) requested at once
+   * @default 4
+   */
+  batchConcurrency?: number;
+  /**
+   * Maximum number of requests in flight at once, shared by all queries of
+   * this instance: oracle /batch chunks and per-pubkey lookups the backend
+   * cannot batch
+   * @default 8
+   */
+  concurrency?: number;
+  /**
+   * Retry policy for oracle requests, or false to disable retries
+   * @default { maxAttempts: 3, baseDelay: 300, maxDelay: 10000, jitter: true }
+   */
+  retry?: RetryOptions | false;
+  /**
+   * Fetch implementation for oracle requests and the extension install probe
+   * @default globalThis.fetch
+   */
+  fetch?: FetchFunction;
+  /**
+   * Request/response interceptors for oracle requests and the extension install probe
+   */
+  interceptors?: TransportInterceptors;
+  /**
+   * NIP-05 resolution for `name@domain` identifiers, or false to reject them
+   * Uses the `fetch`, `interceptors` and `timeout` options unless overridden.
+   */
+  nip05?: Nip05Options | false;
+  /**
+   * Default for the `hybrid` query option: complete getDetails and
+   * batchCheck results from several backends, with per-field sources
+   * @default false
+   */
+  hybrid?: boolean;
+  /**
+   * Store of mute lists and reports (see addSignals)
+   * Pass one to share it between instances.
+   * @default new SignalStore()
+   */
+  signals?: SignalStore;
+  /**
+   * How mutes and reports lower trust
+   */
+  signalPolicy?: Partial<SignalPolicy>;
+  /**
+   * How event listeners (on(), onPubkeyChange()) detect changes, or `false`
+   * to only detect them on refresh(), checkPubkey() and setPubkey()
+   */
+  watch?: WatchOptions | false;
+}
+
+/**
+ * Change detection for event listeners
+ * Only runs while at least one listener is subscribed.
+ */
+export interface WatchOptions {
+  /**
+   * Poll the extension, active pubkey and graph every `interval` milliseconds (0 disables)
+   * @default 5000
+   */
+  interval?: number;
+  /**
+   * Also poll when the window regains focus
+   * @default true
+   */
+  focus?: boolean;
+}
+
+/**
+ * Events emitted by WoT
+ */
+export interface WoTEventMap {
+  /**
+   * The extension became available (injected late or enabled after page load)
+   */
+  'extension:connected': Record<string, never>;
+  /**
+   * The extension is no longer available
+   */
+  'extension:disconnected': Record<string, never>;
+  /**
+   * The graph finished a sync (`getStats().lastSync` moved)
+   */
+  'graph:synced': { stats: GraphStats };
+  /**
+   * The first available backend - the one answering queries - changed
+   */
+  'source:changed': { backend: WoTBackend | null; previous: WoTBackend | null };
+  /**
+   * The active pubkey changed (account switch)
+   */
+  'pubkey:changed': { pubkey: string | null; previous: string | null };
+}
+
+/**
+ * Name of a WoT event
+ */
+export type WoTEventName = keyof WoTEventMap;
+
+/**
+ * Listener for a WoT event
+ */
+export type WoTEventListener<K extends WoTEventName> = (event: WoTEventMap[K]) => void;
+
+/**
+ * Called when the active pubkey changes
+ * @param pubkey - New active pubkey, or null if none is available
+ * @param previous - Previous active pubkey
+ */
+export type PubkeyChangeListener = (pubkey: string | null, previous: string | null) => void;
+
+/**
+ * How negative signals (NIP-51 mutes, NIP-56 reports) affect trust
+ *
+ * Only signals from the user and from pubkeys within `networkHops`
+ * of the user count.
+ */
+export interface SignalPolicy {
+  /**
+   * Maximum distance of a muting/reporting pubkey for its signal to count
+   * @default 1
+   */
+  networkHops: number;
+  /**
+   * Score penalty per counted mute
+   * @default 0.5
+   */
+  mutePenalty: number;
+  /**
+   * Score penalty per counted report
+   * @default 0.2
+   */
+  reportPenalty: number;
+  /**
+   * Block targets the user muted or reported themselves
+   * @default true
+   */
+  blockOnOwnSignal: boolean;
+  /**
+   * Block once this many counted pubkeys mute the target (0 to disable)
+   * @default 3
+   */
+  muteBlockThreshold: number;
+  /**
+   * Block once this many counted pubkeys report the target (0 to disable)
+   * @default 3
+   */
+  reportBlockThreshold: number;
+}
+
+/**
+ * Why a target is blocked
+ */
+export interface BlockedBy {
+  /**
+   * Signal that caused the block
+   */
+  reason: 'mute' | 'report';
+  /**
+   * Pubkeys whose signals caused the block (includes your own pubkey for own mutes/reports)
+   */
+  pubkeys: string[];
+}
+
+/**
+ * Negative signals that count against a target
+ */
+export interface SignalSummary {
+  /**
+   * Counted pubkeys that mute the target
+   */
+  mutedBy: string[];
+  /**
+   * Counted pubkeys that reported the target
+   */
+  reportedBy: string[];
+  /**
+   * Total score penalty (before clamping the score to 0)
+   */
+  penalty: number;
+  /**
+   * Block explanation, null if not blocked
+   */
+  blockedBy: BlockedBy | null;
+}
+
+/**
+ * Retry policy for oracle requests
+ */
+export interface RetryOptions {
+  /**
+   * Maximum number of attempts, including the first one
+   * @default 3
+   */
+  maxAttempts?: number;
+  /**
+   * Base backoff delay in milliseconds (doubled on every attempt)
+   * @default 300
+   */
+  baseDelay?: number;
+  /**
+   * Maximum delay between attempts in milliseconds
+   * A Retry-After longer than this is not waited for.
+   * @default 10000
+   */
+  maxDelay?: number;
+  /**
+   * Randomize backoff delays to avoid synchronized retries
+   * @default true
+   */
+  jitter?: boolean;
+  /**
+   * HTTP status codes that are retried
+   * Network failures without a status code are always retried.
+   * @default [408, 429, 500, 502, 503, 504]
+   */
+  retryOn?: number[];
+}
+
+/**
+ * Fetch implementation used for oracle requests
+ */
+export type FetchFunction = (url: string, init?: RequestInit) => Promise<Response>;
+
+/**
+ * Outgoing HTTP request, as seen by interceptors
+ */
+export interface TransportRequest {
+  /**
+   * Request URL
+   */
+  url: string;
+  /**
+   * Fetch options (method, headers, signal)
+   * Replacing `signal` disables the SDK's timeout for the request.
+   */
+  init: RequestInit;
+}
+
+/**
+ * Hooks around every HTTP request made by the SDK
+ */
+export interface TransportInterceptors {
+  /**
+   * Called before each request - return a modified request to add headers,
+   * rewrite the URL, log, etc.
+   */
+  request?: (request: TransportRequest) => TransportRequest | Promise<TransportRequest>;
+  /**
+   * Called with each response - return it (or a replacement)
+   */
+  response?: (response: Response, request: TransportRequest) => Response | Promise<Response>;
+}
+
+/**
+ * Auto-batching configuration
+ */
+export interface BatchingOptions {
+  /**
+   * Milliseconds to collect single lookups before sending one batch
+   * @default 10
+   */
+  window?: number;
+  /**
+   * Send the batch early once this many pubkeys are queued
+   * @default 100
+   */
+  maxBatchSize?: number;
+}
+
+/**
+ * Result cache configuration
+ */
+export interface CacheOptions {
+  /**
+   * Maximum number of cached entries (least recently used are evicted)
+   * @default 1000
+   */
+  maxSize?: number;
+  /**
+   * Time to live in milliseconds
+   * @default 60000
+   */
+  ttl?: number;
+}
+
+/**
+ * NIP-05 resolver configuration
+ */
+export interface Nip05Options {
+  /**
+   * Fetch implementation
+   * @default globalThis.fetch
+   */
+  fetch?: FetchFunction;
+  /**
+   * Request/response interceptors
+   */
+  interceptors?: TransportInterceptors;
+  /**
+   * Request timeout in milliseconds
+   * @default 5000
+   */
+  timeout?: number;
+  /**
+   * Cache for resolved identifiers (unknown names are cached too), or false to disable
+   * @default { maxSize: 1000, ttl: 3600000 }
+   */
+  cache?: CacheOptions | false;
+}
+
+/**
+ * Decoded nprofile (NIP-19)
+ */
+export interface ProfilePointer {
+  /**
+   * Hex pubkey
+   */
+  pubkey: string;
+  /**
+   * Relay hints
+   */
+  relays: string[];
 }
 
 /**
@@ -103,8 +537,97 @@ export interface QueryOptions {
    * Request timeout in milliseconds for this query
    */
   timeout?: number;
+  /**
+   * Backend strategy for this query
+   */
+  strategy?: BackendStrategy;
+  /**
+   * Cancels the query - it then rejects with an AbortError
+   */
+  signal?: AbortSignal;
+  /**
+   * Trust score algorithm for this query (getTrustScore, getTrustScoreBatch, batchCheck)
+   */
+  algorithm?: TrustAlgorithm;
+  /**
+   * Require at least this many shortest paths (isInMyWoT, filterByWoT, batchCheck)
+   * Direct follows always pass.
+   */
+  minPaths?: number;
+  /**
+   * Require shortest paths through at least this many distinct first-hop pubkeys
+   * (isInMyWoT, filterByWoT, batchCheck). Direct follows always pass.
+   */
+  minDistinctBridges?: number;
+  /**
+   * Require at least this trust score, 0-1 (isInMyWoT, filterByWoT, batchCheck)
+   */
+  minScore?: number;
+  /**
+   * Fill in fields the answering backend lacks from the other backends
+   * and tag every field with its source (getDetails, batchCheck)
+   */
+  hybrid?: boolean;
+  /**
+   * Wrap the answer with its source and freshness, and return a default
+   * value with an `error` instead of throwing (getDistance, isInMyWoT,
+   * getTrustScore, getDetails, getDistanceBetween, batchCheck)
+   */
+  withMeta?: boolean;
+}
+
+/**
+ * Query options that select the `withMeta` result form
+ */
+export type MetaQueryOptions = QueryOptions & { withMeta: true };
+
+/**
+ * Where an answer came from
+ * - A backend kind - answered by that backend
+ * - `'cache'` - answered from the result cache only
+ */
+export type ResultSource = BackendKind | 'cache';
+
+/**
+ * Provenance and freshness of an answer
+ */
+export interface ResultMeta {
+  /**
+   * Where the answer came from, or null when no backend answered
+   * (the value is then a default)
+   */
+  source: ResultSource | null;
+  /**
+   * Root pubkey the query was answered for (null if it could not be determined)
+   */
+  rootPubkey: string | null;
+  /**
+   * Maximum search depth of the query
+   */
+  maxHops: number;
+  /**
+   * When the oldest part of the answer was fetched (ms since epoch)
+   */
+  fetchedAt: number;
+  /**
+   * Why the value is a default (the query failed or no backend could answer)
+   */
+  error?: Error;
+}
+
+/**
+ * Answer wrapped with its metadata
+ */
+export interface WithMeta<T> {
+  value: T;
+  meta: ResultMeta;
 }
 
+/**
+ * Sybil-resistance thresholds from QueryOptions
+ */
+export type TrustThreshold = 'minPaths' | 'minDistinctBridges' | 'minScore';
+
 /**
  * Distance result from extension
  */
@@ -119,7 +642,8 @@ export interface ExtensionDistanceResult {
   paths: number;
   /**
    * Trust score (0-1)
-   * Note: Only available from extension, oracle returns 0
+   * Note: Computed by the SDK from hops, paths and mutual for oracle
+   * and local graph results
    */
   score: number;
 }
@@ -136,6 +660,10 @@ export interface DistanceBatchOptions {
    * Include trust scores in results
    */
   includeScores?: boolean;
+  /**
+   * Cancels the query - it then rejects with an AbortError
+   */
+  signal?: AbortSignal;
 }
 
 /**
@@ -144,16 +672,36 @@ export interface DistanceBatchOptions {
 export interface DistanceResult extends ExtensionDistanceResult {
   /**
    * Pubkeys that bridge to the target (first hop on paths)
-   * Note: Only available from oracle API, not from extension
+   * Note: Not available from extension, unless `hybrid` is set
    */
   bridges?: string[];
   /**
    * Whether target follows source back
-   * Note: Only available from oracle API, not from extension
+   * Note: Not available from extension, unless `hybrid` is set
    */
   mutual?: boolean;
+  /**
+   * Set when negative signals block the target (score is then 0)
+   */
+  blockedBy?: BlockedBy;
+  /**
+   * Where each field came from (only with `hybrid`)
+   */
+  sources?: FieldSources<'hops' | 'paths' | 'score' | 'bridges' | 'mutual'>;
 }
 
+/**
+ * Where a result field came from
+ * - A backend kind - returned by that backend
+ * - `'derived'` - computed by the SDK from the backend's follow lists
+ */
+export type FieldSource = BackendKind | 'derived';
+
+/**
+ * Source of each field of a hybrid result (fields that are missing have no source)
+ */
+export type FieldSources<F extends string> = Partial<Record<F, FieldSource>>;
+
 /**
  * Result for batch check operation
  */
@@ -171,9 +719,78 @@ export interface BatchResult {
    */
   score: number;
   /**
-   * Whether in WoT within maxHops
+   * Whether in WoT within maxHops (false when blocked)
    */
   inWoT: boolean;
+  /**
+   * Set when negative signals block the target
+   */
+  blockedBy?: BlockedBy;
+  /**
+   * Thresholds the target failed (then `inWoT` is false)
+   */
+  failedThresholds?: TrustThreshold[];
+  /**
+   * Number of shortest paths (only with `hybrid`)
+   */
+  paths?: number;
+  /**
+   * Pubkeys that bridge to the target (only with `hybrid`)
+   */
+  bridges?: string[];
+  /**
+   * Whether target follows you back (only with `hybrid`)
+   */
+  mutual?: boolean;
+  /**
+   * Where each field came from (only with `hybrid`, for reachable targets)
+   */
+  sources?: FieldSources<'distance' | 'paths' | 'score' | 'bridges' | 'mutual'>;
+}
+
+/**
+ * Per-pubkey outcome of batchCheckSettled
+ */
+export type SettledBatchResult =
+  | { status: 'ok'; pubkey: string; result: BatchResult }
+  | { status: 'error'; pubkey: string; error: Error };
+
+/**
+ * Options for streamBatch
+ */
+export interface StreamBatchOptions extends QueryOptions {
+  /**
+   * Pubkeys per chunk
+   * @default 50
+   */
+  chunkSize?: number;
+  /**
+   * Maximum number of chunks checked at once
+   * @default 4
+   */
+  concurrency?: number;
+  /**
+   * Called after every chunk
+   */
+  onProgress?: (progress: BatchProgress) => void;
+}
+
+/**
+ * Progress of a streamBatch
+ */
+export interface BatchProgress {
+  /**
+   * Input pubkeys with a result, duplicates included
+   */
+  done: number;
+  /**
+   * Input pubkeys that failed (invalid input or failed lookups), duplicates included
+   */
+  failed: number;
+  /**
+   * Number of input pubkeys, or null when the input is not an array
+   */
+  total: number | null;
 }
 
 /**
@@ -189,6 +806,165 @@ export interface NostrContactEvent {
   sig: string;
 }
 
+/**
+ * Nostr event structure (any kind)
+ * Only `pubkey` and `created_at` are needed for filtering and ranking.
+ */
+export interface NostrEvent {
+  id: string;
+  pubkey: string;
+  created_at: number;
+  kind: number;
+  tags: string[][];
+  content: string;
+  sig?: string;
+}
+
+/**
+ * Policy for filterEvents - query options, including thresholds such as `minScore`
+ */
+export type EventPolicy = QueryOptions;
+
+/**
+ * Event annotated with its author's WoT position
+ */
+export interface ScoredEvent<E> {
+  /**
+   * The original event
+   */
+  event: E;
+  /**
+   * Author's distance in hops, null if not reachable
+   */
+  distance: number | null;
+  /**
+   * Author's trust score (0-1)
+   */
+  score: number;
+}
+
+/**
+ * Options for LocalGraph constructor
+ */
+export interface LocalGraphOptions {
+  /**
+   * Your pubkey in hex format
+   * Used as the root for getDistance, isInMyWoT, getDetails, getPath, etc.
+   */
+  myPubkey?: string;
+  /**
+   * Default maximum search depth
+   * @default 3
+   */
+  maxHops?: number;
+  /**
+   * Trust score configuration
+   * Merged with the defaults, which match the extension's defaults.
+   */
+  scoring?: Partial<ScoringConfig>;
+  /**
+   * Configuration for the pagerank and graperank algorithms
+   */
+  ranking?: Partial<RankingConfig>;
+}
+
+/**
+ * Options for LocalGraph query methods
+ */
+export interface LocalQueryOptions extends QueryOptions {
+  /**
+   * Root pubkey for this query
+   * Defaults to the graph's myPubkey
+   */
+  root?: string;
+}
+
+/**
+ * Options for getPaths
+ */
+export interface PathOptions extends QueryOptions {
+  /**
+   * Maximum number of paths to return
+   * @default 5
+   */
+  limit?: number;
+  /**
+   * Only return paths that share no intermediate pubkeys
+   * @default false
+   */
+  disjoint?: boolean;
+}
+
+/**
+ * Path enumeration parameters passed to backends
+ */
+export interface PathQuery {
+  /**
+   * Maximum number of paths
+   */
+  limit: number;
+  /**
+   * Whether paths must be vertex-disjoint (apart from root and target)
+   */
+  disjoint: boolean;
+}
+
+/**
+ * Options for getFollowers and getTrustedFollowers
+ */
+export interface FollowersOptions extends QueryOptions {
+  /**
+   * Only return followers within this many hops of your pubkey (your own
+   * pubkey excluded). Omit to return every known follower.
+   */
+  withinHops?: number;
+  /**
+   * Maximum number of followers per page
+   * @default 100
+   */
+  limit?: number;
+  /**
+   * `nextCursor` of the previous page
+   */
+  cursor?: string;
+}
+
+/**
+ * Follower query parameters passed to backends
+ */
+export interface FollowersQuery {
+  /**
+   * Maximum hops from the root, or null for all followers
+   */
+  withinHops: number | null;
+  /**
+   * Page size
+   */
+  limit: number;
+  /**
+   * Opaque cursor, or null for the first page
+   */
+  cursor: string | null;
+}
+
+/**
+ * One page of followers
+ */
+export interface FollowersPage {
+  /**
+   * Follower pubkeys, closest to you first
+   */
+  pubkeys: string[];
+  /**
+   * Total number of matching followers (all pages)
+   */
+  total: number;
+  /**
+   * Cursor for the next page, or null on the last page
+   */
+  nextCursor: string | null;
+}
+
 /**
  * Extension configuration returned by getConfig()
  */
@@ -247,11 +1023,193 @@ export interface GraphStats {
   size: string;
 }
 
+/**
+ * Kind of graph backend
+ */
+export type BackendKind = 'extension' | 'oracle' | 'local' | 'custom';
+
+/**
+ * How the WoT class picks between configured backends
+ */
+export type BackendStrategy =
+  | 'first-available'  // Use the first available backend that can answer
+  | 'fallback'         // Like first-available, but try the next backend on error
+  | 'race';            // Query all available backends, use the first answer
+
+/**
+ * Query context passed to backend methods
+ */
+export interface BackendQuery {
+  /**
+   * Root pubkey the query is evaluated from (hex)
+   */
+  root: string;
+  /**
+   * Maximum search depth
+   */
+  maxHops: number;
+  /**
+   * Request timeout in milliseconds
+   */
+  timeout: number;
+  /**
+   * Cancels the query - backends should stop work and reject with an AbortError
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Options for ExtensionBackend constructor
+ */
+export interface ExtensionBackendOptions {
+  /**
+   * Timeout for calls into the extension in milliseconds
+   * @default the query's timeout
+   */
+  timeout?: number;
+}
+
+/**
+ * Options for OracleBackend constructor
+ */
+export interface OracleBackendOptions {
+  /**
+   * Oracle API URL (must be HTTPS)
+   * @default 'https://nostr-wot.com'
+   */
+  oracle?: string;
+  /**
+   * Trust score configuration
+   */
+  scoring?: Partial<ScoringConfig>;
+  /**
+   * Retry policy, or false to disable retries
+   */
+  retry?: RetryOptions | false;
+  /**
+   * Fetch implementation
+   * @default globalThis.fetch
+   */
+  fetch?: FetchFunction;
+  /**
+   * Request/response interceptors
+   */
+  interceptors?: TransportInterceptors;
+  /**
+   * Maximum number of /batch chunks (50 pubkeys each) requested at once
+   * @default 4
+   */
+  batchConcurrency?: number;
+  /**
+   * Limiter that /batch chunk requests also wait for, shared with other
+   * fan-outs (WoT passes its own, sized by the `concurrency` option)
+   */
+  limiter?: Limiter;
+}
+
+/**
+ * Backend specification accepted by the `backends` option
+ * - `'extension'` - Browser extension (window.nostr.wot)
+ * - `'oracle'` - Oracle HTTPS API
+ * - `LocalGraph` - In-memory follow graph
+ * - `WoTBackend` - Custom backend
+ */
+export type BackendSpec = 'extension' | 'oracle' | LocalGraph | WoTBackend;
+
+/**
+ * Graph backend used by the WoT class
+ *
+ * Modeled on NostrWoTExtension, but every query receives the root pubkey
+ * and limits explicitly. All query methods are optional - the WoT class
+ * emulates missing methods where it can (e.g. batches via single calls)
+ * and skips backends that cannot answer at all.
+ */
+export interface WoTBackend {
+  /**
+   * Backend kind
+   */
+  readonly kind: BackendKind;
+  /**
+   * Human-readable backend name
+   */
+  readonly name: string;
+  /**
+   * Set when the backend ignores `query.root` and only answers for its own
+   * user (the extension). Views from `wot.as()` then only use it for distances.
+   */
+  readonly fixedRoot?: boolean;
+
+  /**
+   * Whether the backend can currently answer queries
+   */
+  isAvailable(): Promise<boolean>;
+
+  /**
+   * Whether an implemented method can be used right now
+   * Lets a backend opt out of methods at runtime (e.g. an older extension
+   * build). Implemented methods are used when omitted.
+   */
+  supports?(method: BackendMethod): boolean;
+
+  /**
+   * Get the pubkey this backend is rooted at, if it has one
+   */
+  getPubkey?(): Promise<string | null>;
+
+  // === Core Methods ===
+
+  getDistance?(target: string, query: BackendQuery): Promise<number | null>;
+  isInMyWoT?(target: string, query: BackendQuery): Promise<boolean>;
+  getDistanceBetween?(from: string, to: string, query: BackendQuery): Promise<number | null>;
+  getTrustScore?(target: string, query: BackendQuery): Promise<number | null>;
+  getDetails?(target: string, query: BackendQuery): Promise<DistanceResult | null>;
+
+  // === Batch Operations ===
+
+  getDistanceBatch?(
+    targets: string[],
+    options: DistanceBatchOptions,
+    query: BackendQuery
+  ): Promise<Record<string, number | { hops: number; paths?: number; score?: number } | null>>;
+  getTrustScoreBatch?(targets: string[], query: BackendQuery): Promise<Record<string, number | null>>;
+  batchCheck?(targets: string[], query: BackendQuery): Promise<Map<string, BatchResult>>;
+  filterByWoT?(pubkeys: string[], query: BackendQuery): Promise<string[]>;
+
+  // === Ranking ===
+
+  /**
+   * Scores computed by a graph ranking algorithm (0-1, null if unranked)
+   */
+  getRankScores?(
+    targets: string[],
+    algorithm: RankingAlgorithm,
+    query: BackendQuery
+  ): Promise<Record<string, number | null>>;
+
+  // === Graph Queries ===
+
+  getFollows?(pubkey: string, query: BackendQuery): Promise<string[]>;
+  getFollowers?(
+    pubkey: string,
+    followers: FollowersQuery,
+    query: BackendQuery
+  ): Promise<FollowersPage>;
+  getCommonFollows?(pubkey: string, query: BackendQuery): Promise<string[]>;
+  getPath?(target: string, query: BackendQuery): Promise<string[] | null>;
+  getPaths?(target: string, paths: PathQuery, query: BackendQuery): Promise<string[][]>;
+  getStats?(query: BackendQuery): Promise<GraphStats>;
+}
+
 /**
  * Extension WoT interface (window.nostr.wot)
  * Based on https://github.com/nostr-wot/nostr-wot-extension
  */
 export interface NostrWoTExtension {
+  /**
+   * Extension version (missing in older builds)
+   */
+  readonly version?: string;
+
   // === Core Methods ===
 
   /**
@@ -383,6 +1341,33 @@ export interface NostrWoTExtension {
   getPath(target: string): Promise<string[] | null>;
 }
 
+/**
+ * Query method names of a WoTBackend
+ */
+export type BackendMethod = Exclude<
+  keyof WoTBackend,
+  'kind' | 'name' | 'fixedRoot' | 'isAvailable' | 'supports'
+>;
+
+/**
+ * Method names of the extension API
+ */
+export type ExtensionMethod = Exclude<keyof NostrWoTExtension, 'version'>;
+
+/**
+ * Capabilities of the installed extension build
+ */
+export interface ExtensionCapabilities {
+  /**
+   * Extension version, or null for builds that do not report one
+   */
+  version: string | null;
+  /**
+   * Methods the extension implements
+   */
+  methods: ExtensionMethod[];
+}
+
 /**
  * Window with nostr extension
  */
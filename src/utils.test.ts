@@ -0,0 +1,150 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  DEFAULT_RETRY,
+  backoffDelay,
+  fetchWithTimeout,
+  hasThresholds,
+  parseRetryAfter,
+} from './utils';
+import { AbortError } from './errors';
+import type { FetchFunction } from './types';
+
+describe('backoffDelay', () => {
+  const policy = { ...DEFAULT_RETRY, baseDelay: 100, maxDelay: 1000, jitter: false };
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('doubles the delay per attempt', () => {
+    expect([1, 2, 3, 4].map((attempt) => backoffDelay(attempt, policy))).toEqual([
+      100, 200, 400, 800,
+    ]);
+  });
+
+  it('caps the delay at maxDelay', () => {
+    expect(backoffDelay(5, policy)).toBe(1000);
+    expect(backoffDelay(20, policy)).toBe(1000);
+  });
+
+  it('keeps jitter between 50% and 100% of the delay', () => {
+    const jittered = { ...policy, jitter: true };
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    expect(backoffDelay(3, jittered)).toBe(200);
+    vi.spyOn(Math, 'random').mockReturnValue(0.999999);
+    expect(backoffDelay(3, jittered)).toBe(400);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('parses delays in seconds', () => {
+    expect(parseRetryAfter('3')).toBe(3000);
+    expect(parseRetryAfter('0')).toBe(0);
+    expect(parseRetryAfter('1.5')).toBe(1500);
+  });
+
+  it('parses HTTP dates relative to now', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-01-01T00:00:00Z'));
+    expect(parseRetryAfter('Mon, 01 Jan 2024 00:00:05 GMT')).toBe(5000);
+    expect(parseRetryAfter('Sun, 31 Dec 2023 23:59:00 GMT')).toBe(0);
+  });
+
+  it('ignores missing and invalid values', () => {
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter('')).toBeUndefined();
+    expect(parseRetryAfter('-1')).toBeUndefined();
+    expect(parseRetryAfter('soon')).toBeUndefined();
+  });
+});
+
+describe('fetchWithTimeout', () => {
+  const URL = 'https://oracle.example/api/distance';
+
+  /**
+   * Fetch that never answers, rejecting once its signal aborts
+   */
+  const hanging = () =>
+    vi.fn<FetchFunction>(
+      (_url, init) =>
+        new Promise((_resolve, reject) =>
+          init?.signal?.addEventListener('abort', () => reject(init.signal!.reason))
+        )
+    );
+
+  it('sends the request through the custom fetch', async () => {
+    const fetch = vi.fn<FetchFunction>(async () => new Response('{}'));
+
+    await fetchWithTimeout(URL, { fetch, headers: { Accept: 'application/json' } });
+    expect(fetch).toHaveBeenCalledExactlyOnceWith(URL, {
+      headers: { Accept: 'application/json' },
+      signal: expect.any(AbortSignal),
+    });
+  });
+
+  it('runs the request and response interceptors', async () => {
+    const fetch = vi.fn<FetchFunction>(async () => new Response('{}', { status: 200 }));
+    const replaced = new Response(null, { status: 204 });
+    const response = vi.fn(() => replaced);
+
+    const result = await fetchWithTimeout(URL, {
+      fetch,
+      interceptors: {
+        request: async ({ url, init }) => ({
+          url: url.replace('oracle.example', 'proxy.example'),
+          init: { ...init, headers: { Authorization: 'Bearer token' } },
+        }),
+        response,
+      },
+    });
+
+    const [url, init] = fetch.mock.calls[0];
+    expect(url).toBe('https://proxy.example/api/distance');
+    expect(init).toMatchObject({ headers: { Authorization: 'Bearer token' } });
+    expect(response).toHaveBeenCalledWith(expect.any(Response), { url, init });
+    expect(result).toBe(replaced);
+  });
+
+  it('aborts the request after the timeout', async () => {
+    vi.useFakeTimers();
+    try {
+      const fetch = hanging();
+      const request = fetchWithTimeout(URL, { fetch, timeout: 100 }).catch((e: unknown) => e);
+
+      await vi.advanceTimersByTimeAsync(100);
+      expect(await request).toMatchObject({ name: 'AbortError' });
+      expect(fetch.mock.calls[0][1]?.signal?.aborted).toBe(true);
+      expect(vi.getTimerCount()).toBe(0);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('aborts the request with the caller signal', async () => {
+    const fetch = hanging();
+    const controller = new AbortController();
+
+    const request = fetchWithTimeout(URL, { fetch, signal: controller.signal });
+    controller.abort();
+    await expect(request).rejects.toMatchObject({ name: 'AbortError' });
+
+    await expect(fetchWithTimeout(URL, { fetch, signal: controller.signal })).rejects.toThrow(
+      AbortError
+    );
+    expect(fetch).toHaveBeenCalledOnce();
+  });
+});
+
+describe('hasThresholds', () => {
+  it('is true when any threshold is set, including zero', () => {
+    expect(hasThresholds()).toBe(false);
+    expect(hasThresholds({ maxHops: 2, minPaths: undefined })).toBe(false);
+    expect(hasThresholds({ minPaths: 2 })).toBe(true);
+    expect(hasThresholds({ minDistinctBridges: 1 })).toBe(true);
+    expect(hasThresholds({ minScore: 0 })).toBe(true);
+  });
+});
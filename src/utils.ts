@@ -1,3 +1,12 @@
+import type {
+  FetchFunction,
+  QueryOptions,
+  RetryOptions,
+  TransportInterceptors,
+  TransportRequest,
+} from './types';
+import { AbortError, WoTError } from './errors';
+
 /**
  * Default oracle URL
  */
@@ -13,6 +22,47 @@ export const DEFAULT_MAX_HOPS = 3;
  */
 export const DEFAULT_TIMEOUT = 5000;
 
+/**
+ * Default interval between change detection polls in milliseconds
+ */
+export const DEFAULT_WATCH_INTERVAL = 5000;
+
+/**
+ * Default maximum number of cached results
+ */
+export const DEFAULT_CACHE_SIZE = 1000;
+
+/**
+ * Default cache TTL in milliseconds
+ */
+export const DEFAULT_CACHE_TTL = 60000;
+
+/**
+ * Default NIP-05 cache TTL in milliseconds
+ */
+export const DEFAULT_NIP05_TTL = 3600000;
+
+/**
+ * Default auto-batching window in milliseconds
+ */
+export const DEFAULT_BATCH_WINDOW = 10;
+
+/**
+ * Default maximum number of pubkeys per auto-batch
+ */
+export const DEFAULT_AUTO_BATCH_SIZE = 100;
+
+/**
+ * Default retry policy for oracle requests
+ */
+export const DEFAULT_RETRY: Required<RetryOptions> = {
+  maxAttempts: 3,
+  baseDelay: 300,
+  maxDelay: 10000,
+  jitter: true,
+  retryOn: [408, 429, 500, 502, 503, 504],
+};
+
 /**
  * Validates a hex pubkey
  */
@@ -32,11 +82,51 @@ export function isValidOracleUrl(url: string): boolean {
   }
 }
 
+/**
+ * Default number of paths returned by getPaths
+ */
+export const DEFAULT_PATH_LIMIT = 5;
+
+/**
+ * Maximum number of paths returned by getPaths
+ */
+export const MAX_PATH_LIMIT = 100;
+
+/**
+ * Default page size for getFollowers
+ */
+export const DEFAULT_FOLLOWERS_LIMIT = 100;
+
+/**
+ * Maximum page size for getFollowers
+ */
+export const MAX_FOLLOWERS_LIMIT = 1000;
+
+/**
+ * Maximum follower pages read to derive the bridges of a hybrid getDetails
+ */
+export const MAX_BRIDGE_PAGES = 10;
+
 /**
  * Maximum allowed batch size for array inputs
  */
 export const MAX_BATCH_SIZE = 10000;
 
+/**
+ * Default number of oracle batch chunks requested at once
+ */
+export const DEFAULT_BATCH_CONCURRENCY = 4;
+
+/**
+ * Default number of pubkeys per streamBatch chunk
+ */
+export const DEFAULT_STREAM_CHUNK_SIZE = 50;
+
+/**
+ * Default number of per-pubkey requests WoT runs at once
+ */
+export const DEFAULT_CONCURRENCY = 8;
+
 /**
  * Normalizes a pubkey to lowercase hex
  */
@@ -44,33 +134,132 @@ export function normalizePubkey(pubkey: string): string {
   return pubkey.toLowerCase();
 }
 
+/**
+ * Options for fetchWithTimeout
+ */
+export interface FetchWithTimeoutOptions extends RequestInit {
+  /**
+   * Timeout in milliseconds
+   */
+  timeout?: number;
+  /**
+   * Fetch implementation, defaults to the global fetch
+   */
+  fetch?: FetchFunction;
+  /**
+   * Request/response interceptors
+   */
+  interceptors?: TransportInterceptors;
+}
+
 /**
  * Creates a fetch request with timeout
+ * Runs the request interceptor before sending and the response
+ * interceptor on the response.
  */
 export async function fetchWithTimeout(
   url: string,
-  options: RequestInit & { timeout?: number } = {}
+  options: FetchWithTimeoutOptions = {}
 ): Promise<Response> {
-  const { timeout = DEFAULT_TIMEOUT, ...fetchOptions } = options;
+  const {
+    timeout = DEFAULT_TIMEOUT,
+    fetch: fetchFn = (input, init) => fetch(input, init),
+    interceptors,
+    signal,
+    ...fetchOptions
+  } = options;
+
+  throwIfAborted(signal ?? undefined);
 
+  // One controller for both the timeout and the caller's signal
   const controller = new AbortController();
   const timeoutId = setTimeout(() => controller.abort(), timeout);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort);
 
   try {
-    return await fetch(url, {
-      ...fetchOptions,
-      signal: controller.signal,
-    });
+    let request: TransportRequest = {
+      url,
+      init: { ...fetchOptions, signal: controller.signal },
+    };
+    if (interceptors?.request) {
+      request = await interceptors.request(request);
+    }
+
+    const response = await fetchFn(request.url, request.init);
+    return interceptors?.response
+      ? await interceptors.response(response, request)
+      : response;
   } finally {
     clearTimeout(timeoutId);
+    signal?.removeEventListener('abort', onAbort);
   }
 }
 
+/**
+ * Computes an exponential backoff delay for a retry attempt
+ * @param attempt - Attempt that just failed (1-based)
+ */
+export function backoffDelay(attempt: number, policy: Required<RetryOptions>): number {
+  const exponential = Math.min(policy.maxDelay, policy.baseDelay * 2 ** (attempt - 1));
+  // Jitter keeps the delay between 50% and 100% of the exponential value
+  return policy.jitter ? Math.round(exponential * (0.5 + Math.random() / 2)) : exponential;
+}
+
+/**
+ * Parses a Retry-After header (delay in seconds, or an HTTP date)
+ * @returns Delay in milliseconds, or undefined if missing or invalid
+ */
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return seconds >= 0 ? seconds * 1000 : undefined;
+  }
+
+  const date = Date.parse(value);
+  if (Number.isNaN(date)) return undefined;
+  return Math.max(0, date - Date.now());
+}
+
 /**
  * Delays execution for specified milliseconds
+ * @throws AbortError if the signal aborts first
+ */
+export function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return raceSignal(new Promise((resolve) => setTimeout(resolve, ms)), signal);
+}
+
+/**
+ * Throws an AbortError if the signal has been aborted
  */
-export function delay(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) throw new AbortError(signal.reason);
+}
+
+/**
+ * Rejects with an AbortError as soon as the signal aborts
+ * The promise itself keeps running - use this for work that cannot be cancelled.
+ */
+export function raceSignal<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(new AbortError(signal.reason));
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new AbortError(signal.reason));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      (value) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      (error) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
 }
 
 /**
@@ -84,6 +273,102 @@ export function chunk<T>(array: T[], size: number): T[][] {
   return chunks;
 }
 
+/**
+ * Chunks a sync or async iterable into arrays, reading it lazily
+ */
+export async function* chunkIterable<T>(
+  items: Iterable<T> | AsyncIterable<T>,
+  size: number
+): AsyncGenerator<T[], void, undefined> {
+  let current: T[] = [];
+  for await (const item of items) {
+    current.push(item);
+    if (current.length >= size) {
+      yield current;
+      current = [];
+    }
+  }
+  if (current.length > 0) yield current;
+}
+
+/**
+ * Wraps a thrown non-Error value in a WoTError
+ */
+export function toError(value: unknown): Error {
+  return value instanceof Error ? value : new WoTError(String(value));
+}
+
+/**
+ * Outcome of one call made by settleAll
+ */
+export type Settled<R> = { ok: true; value: R } | { ok: false; error: unknown };
+
+/**
+ * Calls fn for every item, with at most `concurrency` calls in flight
+ * Never rejects - every call's outcome is reported.
+ * @returns Outcomes in input order
+ */
+export async function settleAll<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T) => Promise<R>
+): Promise<Settled<R>[]> {
+  const outcomes: Settled<R>[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      try {
+        outcomes[index] = { ok: true, value: await fn(items[index]) };
+      } catch (error) {
+        outcomes[index] = { ok: false, error };
+      }
+    }
+  };
+
+  const workers = Math.max(1, Math.min(concurrency, items.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+  return outcomes;
+}
+
+/**
+ * Checks whether query options set any Sybil-resistance threshold
+ */
+export function hasThresholds(options?: QueryOptions): boolean {
+  return (
+    options?.minPaths !== undefined ||
+    options?.minDistinctBridges !== undefined ||
+    options?.minScore !== undefined
+  );
+}
+
+/**
+ * Removes duplicate values, keeping first-seen order
+ */
+export function unique<T>(values: T[]): T[] {
+  return Array.from(new Set(values));
+}
+
+/**
+ * Resolves with the first promise to fulfil
+ * Rejects with the last error if every promise rejects
+ */
+export function firstFulfilled<T>(promises: Promise<T>[]): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    let pending = promises.length;
+    if (pending === 0) {
+      reject(new Error('No promises to settle'));
+      return;
+    }
+    for (const promise of promises) {
+      promise.then(resolve, (error) => {
+        if (--pending === 0) reject(error);
+      });
+    }
+  });
+}
+
 /**
  * Creates a deferred promise
  */
@@ -0,0 +1,893 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { WoT } from './wot';
+import { LocalGraph } from './graph';
+import { MUTE_LIST_KIND, REPORT_KIND } from './signals';
+import { BatchError, ExtensionError, NetworkError, WoTError } from './errors';
+import { MAX_BATCH_SIZE, MAX_BRIDGE_PAGES } from './utils';
+import type {
+  FetchFunction,
+  NostrContactEvent,
+  NostrEvent,
+  NostrWoTExtension,
+  TransportRequest,
+  WoTBackend,
+  WoTOptions,
+} from './types';
+
+const pk = (n: number) => n.toString(16).padStart(64, '0');
+const ME = pk(0xffff);
+
+/**
+ * Oracle mock answering every lookup with a distance of 2
+ * @param failing - Pubkeys whose /batch chunks and /details lookups fail
+ */
+function createOracle(failing: { batch?: string[]; details?: string[] } = {}) {
+  const error = () => new Response('', { status: 500, statusText: 'Server Error' });
+
+  return vi.fn<FetchFunction>(async (url) => {
+    const { pathname, searchParams } = new URL(url);
+    if (pathname.startsWith('/api/batch/')) {
+      const targets = (searchParams.get('targets') ?? '').split(',');
+      if (targets.some((target) => failing.batch?.includes(target))) return error();
+      const results = targets.map((pubkey) => ({ pubkey, distance: 2, paths: 1 }));
+      return new Response(JSON.stringify({ results }), { status: 200 });
+    }
+    if (pathname.startsWith('/api/details/')) {
+      if (failing.details?.some((target) => pathname.endsWith(target))) return error();
+      return new Response(JSON.stringify({ hops: 2, paths: 1 }), { status: 200 });
+    }
+    return new Response('', { status: 404 });
+  });
+}
+
+/**
+ * Event of a kind tagging the given pubkeys (mute list, report)
+ */
+function tagging(kind: number, author: string, pubkeys: string[]): NostrEvent {
+  return {
+    id: pk(0),
+    pubkey: author,
+    created_at: 1,
+    kind,
+    tags: pubkeys.map((p) => ['p', p]),
+    content: '',
+  };
+}
+
+function contacts(author: string, follows: string[]): NostrContactEvent {
+  return { ...tagging(3, author, follows), kind: 3, sig: '' };
+}
+
+/**
+ * ME -> 1, 2, 3; 1 -> 10; 2 -> 10; 10 -> 20
+ */
+function createGraph(): LocalGraph {
+  const graph = new LocalGraph({ myPubkey: ME });
+  graph.addEvents([
+    contacts(ME, [pk(1), pk(2), pk(3)]),
+    contacts(pk(1), [pk(10)]),
+    contacts(pk(2), [pk(10)]),
+    contacts(pk(10), [pk(20)]),
+  ]);
+  return graph;
+}
+
+/**
+ * Installs a mocked window.nostr.wot rooted at ME
+ */
+function stubExtension(methods: Partial<NostrWoTExtension>) {
+  const extension = { getMyPubkey: async () => ME, ...methods };
+  vi.stubGlobal('window', { nostr: { wot: extension } });
+  return extension;
+}
+
+describe('WoT', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('auto-batching', () => {
+    it('answers distances and scores from one batch check', async () => {
+      const fetch = createOracle();
+      const wot = new WoT({ myPubkey: ME, backends: ['oracle'], fetch, retry: false });
+
+      const [distance, score, other] = await Promise.all([
+        wot.getDistance(pk(1)),
+        wot.getTrustScore(pk(1)),
+        wot.getDistance(pk(2)),
+      ]);
+
+      expect(distance).toBe(2);
+      expect(score).toBeGreaterThan(0);
+      expect(other).toBe(2);
+      expect(fetch).toHaveBeenCalledTimes(1);
+
+      // Both values were cached by the batch
+      await wot.getTrustScore(pk(2));
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('takes scores from the next backend when the first has none', async () => {
+      const distances: WoTBackend = {
+        kind: 'custom',
+        name: 'Distances',
+        isAvailable: async () => true,
+        getDistance: async () => 2,
+      };
+      const options: WoTOptions = { myPubkey: ME, backends: [distances, 'oracle'], retry: false };
+      const wot = new WoT({ ...options, fetch: createOracle() });
+      const single = new WoT({ ...options, fetch: createOracle(), batching: false });
+
+      const [distance, score] = await Promise.all([
+        wot.getDistance(pk(1)),
+        wot.getTrustScore(pk(1)),
+      ]);
+
+      expect(distance).toBe(2);
+      expect(score).toBeGreaterThan(0);
+      expect(score).toBe(await single.getTrustScore(pk(1)));
+      expect((await wot.batchCheck([pk(2)])).get(pk(2))?.score).toBe(score);
+    });
+
+    it('sends single lookups when batching is disabled', async () => {
+      const fetch = createOracle();
+      const wot = new WoT({
+        myPubkey: ME,
+        backends: ['oracle'],
+        fetch,
+        retry: false,
+        batching: false,
+      });
+
+      await Promise.all([wot.getDistance(pk(1)), wot.getDistance(pk(2))]);
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('strategies', () => {
+    function backend(name: string, getDistance: () => Promise<number | null>, available = true) {
+      return {
+        kind: 'custom',
+        name,
+        isAvailable: async () => available,
+        getDistance: vi.fn(getDistance),
+      } satisfies WoTBackend;
+    }
+    const after = (ms: number, value: number) =>
+      new Promise<number>((resolve) => setTimeout(() => resolve(value), ms));
+    const fail = (message: string) => async (): Promise<number> => {
+      throw new Error(message);
+    };
+    const options: WoTOptions = { myPubkey: ME, batching: false };
+
+    it('uses the first available backend with first-available', async () => {
+      const offline = backend('Offline', async () => 1, false);
+      const failing = backend('Failing', fail('down'));
+      const next = backend('Next', async () => 3);
+      const wot = new WoT({ ...options, backends: [offline, failing, next] });
+
+      await expect(wot.getDistance(pk(1))).rejects.toThrow('down');
+      expect(offline.getDistance).not.toHaveBeenCalled();
+      expect(next.getDistance).not.toHaveBeenCalled();
+
+      const skipping = new WoT({ ...options, backends: [offline, next, failing] });
+      expect(await skipping.getDistance(pk(1))).toBe(3);
+    });
+
+    it('tries the next backend on errors with fallback', async () => {
+      const failing = backend('Failing', fail('down'));
+      const next = backend('Next', async () => 3);
+      const wot = new WoT({ ...options, backends: [failing, next], strategy: 'fallback' });
+
+      expect(await wot.getDistance(pk(1))).toBe(3);
+      expect(failing.getDistance).toHaveBeenCalledOnce();
+
+      const broken = new WoT({
+        ...options,
+        backends: [failing, backend('Last', fail('also down'))],
+        strategy: 'fallback',
+      });
+      await expect(broken.getDistance(pk(1))).rejects.toThrow('also down');
+    });
+
+    it('takes the first answer with race', async () => {
+      const slow = backend('Slow', () => after(50, 1));
+      const fast = backend('Fast', () => after(5, 2));
+      const failing = backend('Failing', fail('down'));
+      const wot = new WoT({ ...options, backends: [slow, failing, fast], strategy: 'race' });
+
+      const { value, meta } = await wot.getDistance(pk(1), { withMeta: true });
+      expect(value).toBe(2);
+      expect(meta.source).toBe('custom');
+      expect(slow.getDistance).toHaveBeenCalledOnce();
+
+      // A per-query strategy overrides the default
+      expect(await wot.getDistance(pk(2), { strategy: 'first-available' })).toBe(1);
+
+      const broken = new WoT({ ...options, backends: [failing], strategy: 'race' });
+      await expect(broken.getDistance(pk(1))).rejects.toThrow('down');
+    });
+  });
+
+  describe('transport', () => {
+    it('sends oracle requests through the fetch and interceptors options', async () => {
+      const fetch = createOracle();
+      const request = vi.fn((req: TransportRequest) => ({
+        ...req,
+        init: { ...req.init, headers: { 'X-Client': 'test' } },
+      }));
+      const wot = new WoT({
+        myPubkey: ME,
+        backends: ['oracle'],
+        fetch,
+        retry: false,
+        interceptors: { request },
+      });
+
+      expect(await wot.getDistance(pk(1))).toBe(2);
+      expect(request).toHaveBeenCalledOnce();
+      expect(fetch.mock.calls[0][1]).toMatchObject({ headers: { 'X-Client': 'test' } });
+    });
+  });
+
+  describe('scoring', () => {
+    it('derives oracle scores with the scoring option', async () => {
+      const scoring = { distanceWeights: { 2: 0.8 }, mutualBonus: 0 };
+      const wot = new WoT({ myPubkey: ME, backends: ['oracle'], fetch: createOracle(), scoring });
+
+      expect(await wot.getTrustScore(pk(1))).toBe(0.8);
+      expect((await wot.batchCheck([pk(2)])).get(pk(2))?.score).toBe(0.8);
+    });
+  });
+
+  describe('concurrency', () => {
+    it('runs oracle batch chunks of all calls through one limit', async () => {
+      let active = 0;
+      let maxActive = 0;
+      const oracle = createOracle();
+      const fetch = vi.fn<FetchFunction>(async (url, init) => {
+        maxActive = Math.max(maxActive, ++active);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        active--;
+        return oracle(url, init);
+      });
+      const wot = new WoT({
+        myPubkey: ME,
+        backends: ['oracle'],
+        fetch,
+        retry: false,
+        concurrency: 3,
+      });
+
+      const targets = Array.from({ length: 200 }, (_, i) => pk(i + 1));
+      await Promise.all([wot.batchCheck(targets), wot.batchCheck(targets, { maxHops: 2 })]);
+
+      expect(fetch).toHaveBeenCalledTimes(8);
+      expect(maxActive).toBe(3);
+    });
+  });
+
+  describe('cancellation', () => {
+    it('aborts the NIP-05 lookup of a query', async () => {
+      let aborted = false;
+      const fetch = vi.fn<FetchFunction>(
+        (_url, init) =>
+          new Promise((_resolve, reject) =>
+            init?.signal?.addEventListener('abort', () => {
+              aborted = true;
+              reject(init.signal!.reason);
+            })
+          )
+      );
+      const wot = new WoT({ myPubkey: ME, backends: ['oracle'], fetch, retry: false });
+      const controller = new AbortController();
+
+      const distance = wot.getDistance('bob@example.com', { signal: controller.signal });
+      controller.abort();
+
+      await expect(distance).rejects.toMatchObject({ name: 'AbortError' });
+      expect(aborted).toBe(true);
+      expect(fetch.mock.calls[0][0]).toContain('/.well-known/nostr.json');
+    });
+  });
+
+  describe('as', () => {
+    const ADMIN = pk(0xaaaa);
+
+    it('asks the extension for distances and the oracle for scores and details', async () => {
+      const extension = stubExtension({
+        getDistance: vi.fn(async () => 1),
+        getDistanceBetween: vi.fn(async () => 2),
+        getTrustScore: vi.fn(async () => 0.9),
+      });
+      const fetch = createOracle();
+      const wot = new WoT({ backends: ['extension', 'oracle'], fetch, retry: false });
+      const view = wot.as(ADMIN);
+
+      const [distance, score] = await Promise.all([
+        view.getDistance(pk(1)),
+        view.getTrustScore(pk(1)),
+      ]);
+      expect(distance).toBe(2);
+      expect(extension.getDistanceBetween).toHaveBeenCalledWith(ADMIN, pk(1));
+      expect(score).toBeGreaterThan(0);
+      expect(score).not.toBe(0.9);
+
+      const checked = await view.batchCheck([pk(2), pk(3)]);
+      expect(checked.get(pk(2))).toMatchObject({ distance: 2, score, inWoT: true });
+
+      const details = await view.getDetails(pk(1));
+      expect(details).toMatchObject({ hops: 2, score });
+      expect(fetch.mock.calls.some(([url]) => url.includes(`/details/${ADMIN}/`))).toBe(true);
+
+      // The instance itself still scores with the extension
+      await expect(wot.getTrustScore(pk(1))).resolves.toBe(0.9);
+    });
+
+    it('keeps view and instance results apart', async () => {
+      stubExtension({
+        getDistance: async () => 1,
+        getDistanceBetween: async () => 3,
+        getTrustScore: async () => 0.9,
+      });
+      const wot = new WoT({
+        backends: ['extension', 'oracle'],
+        fetch: createOracle(),
+        retry: false,
+      });
+
+      const [own, viewed] = await Promise.all([
+        wot.getDistance(pk(1)),
+        wot.as(ADMIN).getDistance(pk(1)),
+      ]);
+      expect(own).toBe(1);
+      expect(viewed).toBe(3);
+    });
+  });
+
+  describe('batchCheckSettled', () => {
+    const targets = Array.from({ length: 120 }, (_, i) => pk(i + 1));
+
+    it('fails only the pubkeys of failed oracle chunks', async () => {
+      const fetch = createOracle({ batch: [pk(60)] });
+      const wot = new WoT({ myPubkey: ME, backends: ['oracle'], fetch, retry: false });
+
+      const settled = await wot.batchCheckSettled(targets);
+      const failed = targets.filter((target) => settled.get(target)?.status === 'error');
+
+      expect(settled.size).toBe(120);
+      expect(failed).toEqual(targets.slice(50, 100));
+      expect(settled.get(pk(1))).toMatchObject({ status: 'ok', result: { distance: 2 } });
+      expect(settled.get(pk(60))).toMatchObject({ error: { name: 'NetworkError' } });
+    });
+
+    it('reports the same failures as a BatchError from batchCheck', async () => {
+      const fetch = createOracle({ batch: [pk(60)] });
+      const wot = new WoT({ myPubkey: ME, backends: ['oracle'], fetch, retry: false });
+
+      const error = await wot.batchCheck(targets).catch((e: unknown) => e);
+      expect(error).toBeInstanceOf(BatchError);
+      expect((error as BatchError).failed).toHaveLength(50);
+      expect((error as BatchError).results.size).toBe(70);
+      expect((error as BatchError).message).toBe('50 of 120 pubkeys failed');
+    });
+
+    it('fails only the pubkeys whose hybrid details failed', async () => {
+      const fetch = createOracle({ details: [pk(3)] });
+      const wot = new WoT({
+        myPubkey: ME,
+        backends: ['oracle'],
+        fetch,
+        retry: false,
+        hybrid: true,
+      });
+
+      const settled = await wot.batchCheckSettled(targets.slice(0, 5));
+      expect(settled.get(pk(3))).toMatchObject({ status: 'error' });
+      const others = [1, 2, 4, 5].map((n) => settled.get(pk(n))?.status);
+      expect(others).toEqual(['ok', 'ok', 'ok', 'ok']);
+      await expect(wot.batchCheck(targets.slice(0, 5))).rejects.toThrow('HTTP 500');
+    });
+
+    it('still throws for aborted queries', async () => {
+      const wot = new WoT({ myPubkey: ME, backends: ['oracle'], fetch: createOracle() });
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        wot.batchCheckSettled(targets, { signal: controller.signal })
+      ).rejects.toMatchObject({ name: 'AbortError' });
+    });
+  });
+
+  describe('streamBatch', () => {
+    it('yields ok and error entries without throwing', async () => {
+      const fetch = createOracle({ batch: [pk(12)] });
+      const wot = new WoT({ myPubkey: ME, backends: ['oracle'], fetch, retry: false });
+      const input = ['nope', ...Array.from({ length: 25 }, (_, i) => pk(i + 1))];
+      const onProgress = vi.fn();
+
+      const statuses: Record<string, string> = {};
+      for await (const entry of wot.streamBatch(input, { chunkSize: 10, onProgress })) {
+        statuses[entry.pubkey] = entry.status;
+      }
+
+      expect(Object.keys(statuses)).toHaveLength(26);
+      expect(statuses.nope).toBe('error');
+      expect(statuses[pk(12)]).toBe('error');
+      expect(statuses[pk(1)]).toBe('ok');
+      expect(onProgress).toHaveBeenLastCalledWith({ done: 15, failed: 11, total: 26 });
+    });
+
+    it('counts duplicate input towards progress', async () => {
+      const fetch = createOracle({ batch: [pk(3)] });
+      const wot = new WoT({ myPubkey: ME, backends: ['oracle'], fetch, retry: false });
+      const input = [pk(1), pk(2), pk(1), 'nope', 'nope', pk(3), pk(3), pk(2)];
+      const onProgress = vi.fn();
+
+      for await (const _entry of wot.streamBatch(input, { chunkSize: 4, onProgress })) {
+        // drain
+      }
+
+      expect(onProgress).toHaveBeenLastCalledWith({ done: 3, failed: 5, total: 8 });
+    });
+
+    it('stops reading and aborts in-flight chunks on break', async () => {
+      const aborted: string[] = [];
+      const fetch = vi.fn<FetchFunction>(async (url, init) => {
+        const targets = new URL(url).searchParams.get('targets') ?? '';
+        // The first chunk answers once all three are sent, the others wait for an abort
+        if (targets.startsWith(pk(1))) {
+          await new Promise((resolve) => setTimeout(resolve, 20));
+        } else {
+          await new Promise((_, reject) =>
+            init?.signal?.addEventListener('abort', () => {
+              aborted.push(targets);
+              reject(init.signal!.reason);
+            })
+          );
+        }
+        const results = targets.split(',').map((pubkey) => ({ pubkey, distance: 2 }));
+        return new Response(JSON.stringify({ results }), { status: 200 });
+      });
+      const wot = new WoT({ myPubkey: ME, backends: ['oracle'], fetch, retry: false });
+
+      let read = 0;
+      let closed = false;
+      function* source() {
+        try {
+          for (let i = 1; i <= 1000; i++) {
+            read++;
+            yield pk(i);
+          }
+        } finally {
+          closed = true;
+        }
+      }
+
+      for await (const entry of wot.streamBatch(source(), { chunkSize: 10, concurrency: 3 })) {
+        expect(entry.status).toBe('ok');
+        break;
+      }
+
+      expect(closed).toBe(true);
+      expect(read).toBe(30);
+      expect(fetch).toHaveBeenCalledTimes(3);
+      expect(aborted).toHaveLength(2);
+    });
+  });
+
+  describe('withMeta', () => {
+    it('tells a backend answer from a cache hit', async () => {
+      const fetch = createOracle();
+      const wot = new WoT({ myPubkey: ME, backends: ['oracle'], fetch, retry: false });
+
+      const answered = await wot.getDistance(pk(1), { withMeta: true, maxHops: 4 });
+      expect(answered).toEqual({
+        value: 2,
+        meta: { source: 'oracle', rootPubkey: ME, maxHops: 4, fetchedAt: expect.any(Number) },
+      });
+
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      const cached = await wot.getDistance(pk(1), { withMeta: true, maxHops: 4 });
+      expect(cached.meta).toEqual({ ...answered.meta, source: 'cache' });
+      expect(fetch).toHaveBeenCalledOnce();
+    });
+
+    it('reports the error behind a default value', async () => {
+      const fetch = createOracle({ details: [pk(1)] });
+      const wot = new WoT({ myPubkey: ME, backends: ['oracle'], fetch, retry: false });
+
+      const { value, meta } = await wot.getDetails(pk(1), { withMeta: true });
+      expect(value).toBeNull();
+      expect(meta.source).toBeNull();
+      expect(meta.error).toBeInstanceOf(NetworkError);
+    });
+
+    it('tags hybrid fields with their source', async () => {
+      const extension: WoTBackend = {
+        kind: 'extension',
+        name: 'Extension',
+        isAvailable: async () => true,
+        getDetails: async () => ({ hops: 2, paths: 3, score: 0.5 }),
+      };
+      const fetch = vi.fn<FetchFunction>(
+        async () =>
+          new Response(JSON.stringify({ hops: 2, paths: 1, bridges: [pk(7)], mutual: true }), {
+            status: 200,
+          })
+      );
+      const wot = new WoT({ myPubkey: ME, backends: [extension, 'oracle'], fetch, retry: false });
+
+      const { value, meta } = await wot.getDetails(pk(1), { withMeta: true, hybrid: true });
+      expect(meta.source).toBe('extension');
+      expect(value).toMatchObject({
+        hops: 2,
+        paths: 3,
+        bridges: [pk(7)],
+        mutual: true,
+        sources: {
+          hops: 'extension',
+          paths: 'extension',
+          score: 'extension',
+          bridges: 'oracle',
+          mutual: 'oracle',
+        },
+      });
+
+      // Without hybrid the extension's answer is returned as is
+      expect(await wot.getDetails(pk(2))).toEqual({ hops: 2, paths: 3, score: 0.5 });
+    });
+  });
+
+  describe('hybrid getDetails', () => {
+    it('derives the bridges of 2-hop targets from every follower page', async () => {
+      const followers = Array.from({ length: 1200 }, (_, i) => pk(i + 1));
+      const extension: WoTBackend = {
+        kind: 'extension',
+        name: 'Extension',
+        isAvailable: async () => true,
+        getDetails: async () => ({ hops: 2, paths: 3, score: 0.5 }),
+      };
+      const graph: WoTBackend = {
+        kind: 'custom',
+        name: 'Followers',
+        isAvailable: async () => true,
+        getFollowers: vi.fn(async (_pubkey, { withinHops, limit, cursor }) => {
+          expect(withinHops).toBe(1);
+          const start = cursor ? Number(cursor) : 0;
+          const end = start + limit;
+          return {
+            pubkeys: followers.slice(start, end),
+            total: followers.length,
+            nextCursor: end < followers.length ? String(end) : null,
+          };
+        }),
+      };
+      const wot = new WoT({ myPubkey: ME, backends: [extension, graph], hybrid: true });
+
+      const details = await wot.getDetails(pk(5000));
+      expect(details?.bridges).toEqual(followers);
+      expect(details?.sources).toMatchObject({ hops: 'extension', bridges: 'derived' });
+      expect(graph.getFollowers).toHaveBeenCalledTimes(2);
+    });
+
+    it('gives up on backends that never stop paging', async () => {
+      const extension: WoTBackend = {
+        kind: 'extension',
+        name: 'Extension',
+        isAvailable: async () => true,
+        getDetails: async () => ({ hops: 2, paths: 3, score: 0.5 }),
+      };
+      let page = 0;
+      const endless = vi.fn(async () => ({
+        pubkeys: [pk(++page)],
+        total: Infinity,
+        nextCursor: String(page),
+      }));
+      const repeating = vi.fn(async () => ({ pubkeys: [pk(1)], total: 10, nextCursor: 'again' }));
+
+      for (const getFollowers of [endless, repeating]) {
+        const graph: WoTBackend = {
+          kind: 'custom',
+          name: 'Followers',
+          isAvailable: async () => true,
+          getFollowers,
+        };
+        const wot = new WoT({ myPubkey: ME, backends: [extension, graph], hybrid: true });
+
+        const details = await wot.getDetails(pk(5000));
+        expect(details).toMatchObject({ hops: 2 });
+        expect(details?.bridges).toBeUndefined();
+      }
+      expect(endless).toHaveBeenCalledTimes(MAX_BRIDGE_PAGES);
+      expect(repeating).toHaveBeenCalledTimes(2);
+    });
+
+    it('leaves out bridges of targets further away', async () => {
+      const extension: WoTBackend = {
+        kind: 'extension',
+        name: 'Extension',
+        isAvailable: async () => true,
+        getDetails: async () => ({ hops: 3, paths: 1, score: 0.3 }),
+      };
+      const wot = new WoT({ myPubkey: ME, backends: [extension], hybrid: true });
+
+      const details = await wot.getDetails(pk(5000));
+      expect(details?.bridges).toBeUndefined();
+    });
+  });
+
+  describe('filterEvents', () => {
+    it('looks up more than MAX_BATCH_SIZE authors', async () => {
+      const fetch = createOracle();
+      const wot = new WoT({ myPubkey: ME, backends: ['oracle'], fetch, retry: false });
+      const events: NostrEvent[] = Array.from({ length: MAX_BATCH_SIZE + 1 }, (_, i) => ({
+        id: pk(i),
+        pubkey: pk(i + 1),
+        created_at: i,
+        kind: 1,
+        tags: [],
+        content: '',
+        sig: '',
+      }));
+
+      const kept = await wot.filterEvents(events);
+      expect(kept).toHaveLength(MAX_BATCH_SIZE + 1);
+      expect(kept[MAX_BATCH_SIZE]).toMatchObject({ distance: 2 });
+    });
+  });
+
+  describe('extension', () => {
+    const failing = async (): Promise<number | null> => {
+      throw new Error('graph not synced');
+    };
+
+    it('falls back to the next backend when the extension fails', async () => {
+      stubExtension({ getDistance: failing });
+      const options: WoTOptions = { backends: ['extension', 'oracle'], retry: false };
+      const wot = new WoT({ ...options, fetch: createOracle(), extensionFallback: true });
+      const strict = new WoT({ ...options, fetch: createOracle() });
+
+      expect(await wot.getDistance(pk(1))).toBe(2);
+      await expect(strict.getDistance(pk(1))).rejects.toThrow(ExtensionError);
+    });
+
+    it('falls back to the next backend when the extension times out', async () => {
+      const getDistance = vi.fn(() => new Promise<number | null>(() => undefined));
+      stubExtension({ getDistance });
+      const wot = new WoT({
+        backends: ['extension', 'oracle'],
+        fetch: createOracle(),
+        retry: false,
+        extensionTimeout: 20,
+        extensionFallback: true,
+      });
+
+      expect(await wot.getDistance(pk(1))).toBe(2);
+      expect(getDistance).toHaveBeenCalledOnce();
+    });
+
+    it('emulates batch methods an older extension lacks', async () => {
+      const getDistance = vi.fn(async (target: string) => (target === pk(1) ? 1 : null));
+      const getTrustScore = vi.fn(async () => 0.5);
+      stubExtension({ version: '0.1.0', getDistance, getTrustScore });
+      const wot = new WoT({ backends: ['extension'] });
+
+      expect(await wot.getCapabilities()).toEqual({
+        version: '0.1.0',
+        methods: ['getDistance', 'getTrustScore', 'getMyPubkey'],
+      });
+      expect(await wot.getDistanceBatch([pk(1), pk(2)])).toEqual({ [pk(1)]: 1, [pk(2)]: null });
+      expect(getDistance).toHaveBeenCalledTimes(2);
+      expect(await wot.getTrustScoreBatch([pk(1), pk(2)])).toEqual({
+        [pk(1)]: 0.5,
+        [pk(2)]: 0.5,
+      });
+      expect(getTrustScore).toHaveBeenCalledTimes(2);
+    });
+
+    it('routes methods an older extension lacks to the next backend', async () => {
+      const getDistance = vi.fn(async () => 1);
+      stubExtension({ getDistance });
+      const fetch = createOracle();
+      const wot = new WoT({ backends: ['extension', 'oracle'], fetch, retry: false });
+
+      expect(await wot.getDetails(pk(1))).toMatchObject({ hops: 2, paths: 1 });
+      expect(fetch.mock.calls[0][0]).toContain(`/api/details/${ME}/${pk(1)}`);
+      expect(await wot.getDistance(pk(2))).toBe(1);
+      expect(getDistance).toHaveBeenCalledWith(pk(2));
+    });
+  });
+
+  describe('watching', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('polls the active pubkey while anyone listens', async () => {
+      vi.useFakeTimers();
+      let active = ME;
+      const getMyPubkey = vi.fn(async () => active);
+      stubExtension({ getMyPubkey });
+      const wot = new WoT({ backends: ['extension'], watch: { interval: 1000, focus: false } });
+      const listener = vi.fn();
+
+      const unsubscribe = wot.onPubkeyChange(listener);
+      await vi.advanceTimersByTimeAsync(0);
+      expect(vi.getTimerCount()).toBe(1);
+
+      active = pk(5);
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(listener).toHaveBeenCalledExactlyOnceWith(pk(5), ME);
+
+      // The last unsubscribe stops polling
+      unsubscribe();
+      expect(vi.getTimerCount()).toBe(0);
+      const calls = getMyPubkey.mock.calls.length;
+      active = pk(6);
+      await vi.advanceTimersByTimeAsync(5000);
+      expect(getMyPubkey).toHaveBeenCalledTimes(calls);
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it('keeps polling until the last listener unsubscribes', async () => {
+      vi.useFakeTimers();
+      const wot = new WoT({ myPubkey: ME, backends: ['oracle'], fetch: createOracle() });
+
+      const first = wot.on('source:changed', () => undefined);
+      const second = wot.on('pubkey:changed', () => undefined);
+      expect(vi.getTimerCount()).toBe(1);
+
+      first();
+      expect(vi.getTimerCount()).toBe(1);
+      second();
+      expect(vi.getTimerCount()).toBe(0);
+    });
+
+    it('switches and clears the fallback pubkey with setPubkey', async () => {
+      const fetch = createOracle();
+      const wot = new WoT({ myPubkey: ME, backends: ['oracle'], fetch, retry: false });
+      const listener = vi.fn();
+      wot.onPubkeyChange(listener);
+
+      await wot.getDistance(pk(1));
+      expect(await wot.setPubkey(pk(5))).toBe(pk(5));
+      expect(listener).toHaveBeenLastCalledWith(pk(5), ME);
+      expect(await wot.getMyPubkey()).toBe(pk(5));
+
+      expect(await wot.setPubkey(null)).toBeNull();
+      expect(listener).toHaveBeenLastCalledWith(null, pk(5));
+
+      // Results rooted at a previous pubkey were dropped
+      await wot.setPubkey(ME);
+      await wot.getDistance(pk(1));
+      expect(fetch).toHaveBeenCalledTimes(2);
+      expect(listener).toHaveBeenCalledTimes(3);
+    });
+
+    it('emits graph:synced when the last sync changes', async () => {
+      vi.useFakeTimers();
+      let lastSync = 1;
+      const graph: WoTBackend = {
+        kind: 'custom',
+        name: 'Graph',
+        isAvailable: async () => true,
+        getPubkey: async () => ME,
+        getStats: async () => ({ nodes: 1, edges: 0, lastSync, size: '1 KB' }),
+      };
+      const wot = new WoT({ backends: [graph], watch: { interval: 1000, focus: false } });
+      const listener = vi.fn();
+
+      wot.on('graph:synced', listener);
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(listener).not.toHaveBeenCalled();
+
+      lastSync = 2;
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(listener).toHaveBeenCalledExactlyOnceWith({
+        stats: expect.objectContaining({ lastSync: 2 }),
+      });
+    });
+  });
+
+  describe('ranking algorithms', () => {
+    it('scores with pagerank and graperank over a local graph', async () => {
+      const graph = createGraph();
+      const wot = new WoT({ myPubkey: ME, backends: [graph], ranking: { damping: 0.5 } });
+
+      for (const algorithm of ['pagerank', 'graperank'] as const) {
+        const ranks = graph.getRanks(algorithm, {}, { damping: 0.5 });
+        const score = await wot.getTrustScore(pk(10), { algorithm });
+        const far = (await wot.batchCheck([pk(20)], { algorithm })).get(pk(20))?.score;
+
+        expect(score).toBe(ranks.get(pk(10)));
+        expect(far).toBe(ranks.get(pk(20)));
+        expect(far).toBeLessThan(score);
+      }
+    });
+
+    it('needs a local graph backend', async () => {
+      const wot = new WoT({ myPubkey: ME, backends: ['oracle'], fetch: createOracle() });
+
+      await expect(wot.getTrustScore(pk(1), { algorithm: 'pagerank' })).rejects.toThrow(
+        'The pagerank algorithm needs a local graph backend'
+      );
+      await expect(wot.batchCheck([pk(1)], { algorithm: 'graperank' })).rejects.toThrow(
+        WoTError
+      );
+    });
+  });
+
+  describe('negative signals', () => {
+    function createWoT(options: WoTOptions = {}) {
+      return new WoT({ myPubkey: ME, backends: [createGraph()], ...options });
+    }
+
+    it('penalizes targets muted or reported within the network', async () => {
+      const wot = createWoT({ signalPolicy: { mutePenalty: 0.1, reportPenalty: 0.05 } });
+      const base = await wot.getTrustScore(pk(10));
+      expect(base).toBeGreaterThan(0.15);
+
+      // pk(20) is 3 hops away: outside the default networkHops of 1
+      wot.addSignals([
+        tagging(MUTE_LIST_KIND, pk(1), [pk(10)]),
+        tagging(REPORT_KIND, pk(2), [pk(10)]),
+        tagging(MUTE_LIST_KIND, pk(20), [pk(10)]),
+      ]);
+
+      expect(await wot.getSignals(pk(10))).toMatchObject({
+        mutedBy: [pk(1)],
+        reportedBy: [pk(2)],
+        blockedBy: null,
+      });
+      expect(await wot.getTrustScore(pk(10))).toBeCloseTo(base - 0.15);
+      expect(await wot.isInMyWoT(pk(10))).toBe(true);
+
+      const result = (await wot.batchCheck([pk(10)])).get(pk(10));
+      expect(result?.inWoT).toBe(true);
+      expect(result?.score).toBeCloseTo(base - 0.15);
+      expect(result?.blockedBy).toBeUndefined();
+    });
+
+    it('hard-blocks targets the user muted', async () => {
+      const wot = createWoT();
+      wot.addSignals([tagging(MUTE_LIST_KIND, ME, [pk(10)])]);
+
+      expect(await wot.isInMyWoT(pk(10))).toBe(false);
+      expect(await wot.getTrustScore(pk(10))).toBe(0);
+      expect((await wot.batchCheck([pk(10)])).get(pk(10))).toMatchObject({
+        inWoT: false,
+        score: 0,
+        blockedBy: { reason: 'mute', pubkeys: [ME] },
+      });
+      // The distance itself is not a trust judgement
+      expect(await wot.getDistance(pk(10))).toBe(2);
+    });
+
+    it('blocks once the policy threshold of reports is reached', async () => {
+      const wot = createWoT({ signalPolicy: { reportBlockThreshold: 2 } });
+      wot.addSignals([
+        tagging(REPORT_KIND, pk(1), [pk(3)]),
+        tagging(REPORT_KIND, pk(2), [pk(3)]),
+      ]);
+
+      const results = await wot.batchCheck([pk(3), pk(10)]);
+      expect(results.get(pk(3))).toMatchObject({
+        inWoT: false,
+        blockedBy: { reason: 'report', pubkeys: [pk(1), pk(2)] },
+      });
+      expect(results.get(pk(10))?.blockedBy).toBeUndefined();
+      expect(await wot.isInMyWoT(pk(3))).toBe(false);
+    });
+
+    it('only penalizes own signals when blockOnOwnSignal is off', async () => {
+      const wot = createWoT({ signalPolicy: { blockOnOwnSignal: false, reportPenalty: 0.1 } });
+      const base = await wot.getTrustScore(pk(1));
+      wot.addSignals([tagging(REPORT_KIND, ME, [pk(1)])]);
+
+      expect(await wot.isInMyWoT(pk(1))).toBe(true);
+      expect(await wot.getTrustScore(pk(1))).toBeCloseTo(base - 0.1);
+    });
+  });
+});
@@ -1,13 +1,49 @@
 import type {
   WoTOptions,
   WoTFallbackOptions,
+  WatchOptions,
+  WoTEventMap,
+  WoTEventName,
+  WoTEventListener,
+  PubkeyChangeListener,
   QueryOptions,
+  MetaQueryOptions,
+  ResultMeta,
+  WithMeta,
   DistanceResult,
   DistanceBatchOptions,
   BatchResult,
+  SettledBatchResult,
+  StreamBatchOptions,
+  BatchProgress,
+  NostrEvent,
+  SignalPolicy,
+  SignalSummary,
+  EventPolicy,
+  ScoredEvent,
+  TrustThreshold,
+  PathOptions,
+  PathQuery,
+  FollowersOptions,
+  FollowersQuery,
+  FollowersPage,
+  BackendQuery,
+  BackendSpec,
+  BackendStrategy,
+  BackendKind,
+  WoTBackend,
+  BackendMethod,
+  ScoringConfig,
+  TrustAlgorithm,
+  RankingAlgorithm,
+  RankingConfig,
+  BatchingOptions,
+  RetryOptions,
+  FetchFunction,
+  TransportInterceptors,
   NostrWindow,
-  NostrWoTExtension,
   ExtensionConfig,
+  ExtensionCapabilities,
   ExtensionStatus,
   ExtensionConnectionStatus,
   GraphStats,
@@ -19,53 +55,303 @@ import type {
  */
 const DEFAULT_EXTENSION_ID = '';
 import {
-  NetworkError,
+  WoTError,
+  ValidationError,
   NotFoundError,
+  AbortError,
+  ExtensionError,
   TimeoutError,
-  ValidationError,
+  BatchError,
 } from './errors';
 import {
   DEFAULT_ORACLE,
   DEFAULT_MAX_HOPS,
   DEFAULT_TIMEOUT,
+  DEFAULT_WATCH_INTERVAL,
   MAX_BATCH_SIZE,
+  DEFAULT_BATCH_CONCURRENCY,
+  DEFAULT_STREAM_CHUNK_SIZE,
+  DEFAULT_CONCURRENCY,
+  DEFAULT_PATH_LIMIT,
+  MAX_PATH_LIMIT,
+  DEFAULT_FOLLOWERS_LIMIT,
+  MAX_FOLLOWERS_LIMIT,
+  MAX_BRIDGE_PAGES,
   isValidPubkey,
   isValidOracleUrl,
+  DEFAULT_CACHE_SIZE,
+  DEFAULT_CACHE_TTL,
+  DEFAULT_BATCH_WINDOW,
+  DEFAULT_AUTO_BATCH_SIZE,
   normalizePubkey,
+  firstFulfilled,
+  unique,
   fetchWithTimeout,
+  throwIfAborted,
+  toError,
   chunk,
+  chunkIterable,
+  hasThresholds,
 } from './utils';
+import { TTLCache } from './cache';
+import { AbortGroup } from './abort';
+import { BatchLoader } from './batcher';
+import { Limiter } from './limiter';
+import { Emitter } from './events';
+import { LocalGraph } from './graph';
+import {
+  ExtensionBackend,
+  OracleBackend,
+  LocalGraphBackend,
+  RerootedBackend,
+} from './backends';
+import { PUBKEY_FORMATS, parsePubkey, isNpub, isNprofile } from './nip19';
+import { Nip05Resolver, isNip05Identifier } from './nip05';
+import { SignalStore, resolveSignalPolicy } from './signals';
+
+/**
+ * Default backend order: extension first, oracle as fallback
+ */
+const DEFAULT_BACKENDS: BackendSpec[] = ['extension', 'oracle'];
+
+/**
+ * Kinds of cached results
+ * - `distance` - hops or null
+ * - `score` - trust score or null
+ * - `paths` - path count
+ * - `details` - full DistanceResult or null
+ */
+type CacheKind = 'distance' | 'score' | 'paths' | 'details';
+
+/**
+ * State compared between polls to detect changes (undefined = not observed yet)
+ */
+interface ObservedState {
+  extension?: boolean;
+  pubkey?: string | null;
+  backend?: WoTBackend | null;
+  lastSync?: number | null;
+}
+
+/**
+ * Where the parts of a withMeta answer came from
+ */
+interface Trace {
+  root?: string;
+  maxHops?: number;
+  /**
+   * First backend that answered
+   */
+  source?: BackendKind;
+  cached?: boolean;
+  /**
+   * Oldest backend answer or cache entry
+   */
+  fetchedAt?: number;
+}
+
+/**
+ * Query options of a withMeta query, carrying its trace
+ */
+interface TracedOptions extends QueryOptions {
+  trace?: Trace;
+}
+
+/**
+ * Traces of the query contexts built for withMeta queries
+ */
+const traces = new WeakMap<BackendQuery, Trace>();
+
+/**
+ * Records part of an answer in the query's trace (if it has one)
+ */
+function record(query: BackendQuery, source: BackendKind | 'cache', at: number): void {
+  const trace = traces.get(query);
+  if (!trace) return;
+
+  if (source === 'cache') {
+    trace.cached = true;
+  } else {
+    trace.source ??= source;
+  }
+  trace.fetchedAt = Math.min(trace.fetchedAt ?? at, at);
+}
+
+/**
+ * In-flight request shared by identical queries
+ */
+interface Inflight {
+  promise: Promise<unknown>;
+  group: AbortGroup;
+  trace: Trace;
+}
+
+/**
+ * Copies the trace of shared work (coalesced or auto-batched) into the
+ * trace of a query that waited for it (if it has one)
+ */
+function adopt(query: BackendQuery, shared: Trace | undefined): void {
+  const trace = traces.get(query);
+  if (!trace || !shared) return;
+
+  if (shared.cached) trace.cached = true;
+  if (shared.source) trace.source ??= shared.source;
+  if (shared.fetchedAt !== undefined) {
+    trace.fetchedAt = Math.min(trace.fetchedAt ?? shared.fetchedAt, shared.fetchedAt);
+  }
+}
+
+/**
+ * Reports a failure of some pubkeys of a batch (rethrows aborts)
+ */
+type FailPubkeys = (pubkeys: string[], error: unknown) => void;
+
+/**
+ * Value of shared work, with the trace of how it was answered
+ */
+interface Traced<T> {
+  value: T;
+  trace: Trace;
+}
+
+/**
+ * Result of a routed query, with the backend that answered it
+ */
+interface Routed<T> {
+  value: T;
+  backend: WoTBackend;
+}
+
+/**
+ * Extracts hops from a getDistanceBatch entry
+ */
+function hopsOf(
+  entry: number | { hops: number; paths?: number; score?: number } | null | undefined
+): number | null {
+  if (entry === null || entry === undefined) return null;
+  return typeof entry === 'number' ? entry : entry.hops;
+}
+
+/**
+ * Parses an optional hex/npub/nprofile pubkey, ignoring invalid input
+ */
+function tryParsePubkey(value: string | undefined): string | null {
+  if (!value) return null;
+  try {
+    return parsePubkey(value);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Lowers a score by the signal penalty (0 when blocked)
+ */
+function penalize(score: number, summary: SignalSummary): number {
+  if (summary.blockedBy) return 0;
+  return Math.max(0, score - summary.penalty);
+}
+
+/**
+ * Applies negative signals to a batch result
+ */
+function applySignals(result: BatchResult, summary: SignalSummary): BatchResult {
+  if (summary.blockedBy) {
+    return { ...result, score: 0, inWoT: false, blockedBy: summary.blockedBy };
+  }
+  return { ...result, score: penalize(result.score, summary) };
+}
+
+/**
+ * Checks whether a backend implements a method and can use it
+ */
+function has(backend: WoTBackend, method: BackendMethod): boolean {
+  return typeof backend[method] === 'function' && (backend.supports?.(method) ?? true);
+}
+
+/**
+ * Checks whether a backend can answer batch distance queries
+ * (natively or by emulating them with single calls)
+ */
+function canBatch(backend: WoTBackend): boolean {
+  return (
+    has(backend, 'batchCheck') ||
+    has(backend, 'getDistanceBatch') ||
+    has(backend, 'getDistance')
+  );
+}
+
+/**
+ * Checks whether a backend can answer trust scores
+ */
+function canScore(backend: WoTBackend): boolean {
+  return (
+    has(backend, 'batchCheck') ||
+    has(backend, 'getTrustScoreBatch') ||
+    has(backend, 'getTrustScore')
+  );
+}
 
 /**
  * WoT (Web of Trust) SDK for querying Nostr trust relationships
  *
- * The SDK always tries to use the browser extension when available.
- * The extension syncs and caches the follow graph locally, providing
- * the best performance and privacy. When the extension is not available,
- * it falls back to the oracle API.
+ * Queries are answered by an ordered list of backends (extension, oracle,
+ * local graph or custom). By default the SDK always tries to use the
+ * browser extension when available. The extension syncs and caches the
+ * follow graph locally, providing the best performance and privacy.
+ * When the extension is not available, it falls back to the oracle API.
  */
 export class WoT {
   private readonly oracle: string;
-  private readonly fallbackPubkey: string | null;
+  private fallbackPubkey: string | null;
   private readonly maxHops: number;
   private readonly timeout: number;
+  private readonly extensionTimeout: number | undefined;
+  private readonly extensionFallback: boolean;
   private readonly fallbackOptions: WoTFallbackOptions | null;
   private readonly extensionId: string;
-  private extension: NostrWoTExtension | null = null;
-  private extensionPubkey: string | null = null;
+  private readonly strategy: BackendStrategy;
+  private readonly scoring: Partial<ScoringConfig> | undefined;
+  private readonly algorithm: TrustAlgorithm;
+  private readonly ranking: Partial<RankingConfig> | undefined;
+  private readonly retry: RetryOptions | false | undefined;
+  private readonly batchConcurrency: number | undefined;
+  /**
+   * Caps per-pubkey requests across all fan-outs of this instance
+   */
+  private readonly limiter: Limiter;
+  private readonly fetch: FetchFunction | undefined;
+  private readonly interceptors: TransportInterceptors | undefined;
+  private readonly backends: WoTBackend[];
+  private readonly extension: ExtensionBackend | null;
+  private readonly cache: TTLCache<unknown> | null;
+  private readonly batching: Required<BatchingOptions> | null;
+  private readonly inflight = new Map<string, Inflight>();
+  private readonly loaders = new Map<string, BatchLoader<Traced<BatchResult>>>();
+  private readonly nip05: Nip05Resolver | null;
+  private readonly signals: SignalStore;
+  private readonly signalPolicy: SignalPolicy;
+  private readonly hybrid: boolean;
+  /**
+   * Root pubkey of a view created with as() (NIP-05 identifiers resolve on use)
+   */
+  private readonly scopedRoot: string | null = null;
+  private readonly watch: Required<WatchOptions> | null;
+  private readonly events = new Emitter<WoTEventMap>();
+  /**
+   * Last observed state, compared on every poll (undefined until first observed)
+   */
+  private observed: ObservedState = {};
+  private polling: Promise<void> | null = null;
+  private stopWatch: (() => void) | null = null;
 
   constructor(options: WoTOptions = {}) {
     this.fallbackOptions = options.fallback ?? null;
     this.extensionId = options.extensionId ?? DEFAULT_EXTENSION_ID;
 
     // Use provided pubkey or fallback pubkey for oracle fallback
-    if (options.myPubkey && isValidPubkey(options.myPubkey)) {
-      this.fallbackPubkey = normalizePubkey(options.myPubkey);
-    } else if (this.fallbackOptions?.myPubkey) {
-      this.fallbackPubkey = normalizePubkey(this.fallbackOptions.myPubkey);
-    } else {
-      this.fallbackPubkey = null;
-    }
+    this.fallbackPubkey =
+      tryParsePubkey(options.myPubkey) ?? tryParsePubkey(this.fallbackOptions?.myPubkey);
 
     const oracleUrl = options.oracle ?? this.fallbackOptions?.oracle ?? DEFAULT_ORACLE;
     if (!isValidOracleUrl(oracleUrl)) {
@@ -74,57 +360,120 @@ export class WoT {
     this.oracle = oracleUrl;
     this.maxHops = options.maxHops ?? this.fallbackOptions?.maxHops ?? DEFAULT_MAX_HOPS;
     this.timeout = options.timeout ?? this.fallbackOptions?.timeout ?? DEFAULT_TIMEOUT;
+    this.extensionTimeout = options.extensionTimeout;
+    this.extensionFallback = options.extensionFallback ?? false;
+    this.strategy = options.strategy ?? 'first-available';
+    this.scoring = options.scoring;
+    this.algorithm = options.algorithm ?? 'hop-decay';
+    this.ranking = options.ranking;
+    this.retry = options.retry;
+    this.batchConcurrency = options.batchConcurrency;
+    this.limiter = new Limiter(options.concurrency ?? DEFAULT_CONCURRENCY);
+    this.fetch = options.fetch;
+    this.interceptors = options.interceptors;
+
+    this.backends = (options.backends ?? DEFAULT_BACKENDS).map((spec, i) =>
+      this.createBackend(spec, i)
+    );
+    this.extension =
+      this.backends.find((b): b is ExtensionBackend => b instanceof ExtensionBackend) ??
+      null;
+
+    this.cache =
+      options.cache === false
+        ? null
+        : new TTLCache(
+            options.cache?.maxSize ?? DEFAULT_CACHE_SIZE,
+            options.cache?.ttl ?? DEFAULT_CACHE_TTL
+          );
+
+    this.batching =
+      options.batching === false
+        ? null
+        : {
+            window: options.batching?.window ?? DEFAULT_BATCH_WINDOW,
+            maxBatchSize: options.batching?.maxBatchSize ?? DEFAULT_AUTO_BATCH_SIZE,
+          };
+
+    this.nip05 =
+      options.nip05 === false
+        ? null
+        : new Nip05Resolver({
+            fetch: this.fetch,
+            interceptors: this.interceptors,
+            timeout: this.timeout,
+            ...options.nip05,
+          });
+
+    this.signals = options.signals ?? new SignalStore();
+    this.signalPolicy = resolveSignalPolicy(options.signalPolicy);
+    this.hybrid = options.hybrid ?? false;
+
+    this.watch =
+      options.watch === false
+        ? null
+        : {
+            interval: options.watch?.interval ?? DEFAULT_WATCH_INTERVAL,
+            focus: options.watch?.focus ?? true,
+          };
   }
 
   /**
-   * Checks if browser extension is available and returns it
-   * Simply checks window.nostr.wot - extension auto-injects when enabled
-   * Always returns fresh reference to handle extension reloads
+   * Creates a backend from a `backends` option entry
    */
-  private async getExtension(): Promise<NostrWoTExtension | null> {
-    // Check if running in browser
-    if (typeof window === 'undefined') return null;
-
-    const win = window as NostrWindow;
-
-    // Check if extension API is available (auto-injected by extension)
-    if (win.nostr?.wot) {
-      this.extension = win.nostr.wot;
+  private createBackend(spec: BackendSpec, index: number): WoTBackend {
+    if (spec === 'extension') return new ExtensionBackend({ timeout: this.extensionTimeout });
+    if (spec === 'oracle') {
+      return new OracleBackend({
+        oracle: this.oracle,
+        scoring: this.scoring,
+        retry: this.retry,
+        fetch: this.fetch,
+        interceptors: this.interceptors,
+        batchConcurrency: this.batchConcurrency,
+        limiter: this.limiter,
+      });
+    }
+    if (spec instanceof LocalGraph) {
+      return new LocalGraphBackend(spec, this.scoring, this.ranking);
+    }
+    if (spec && typeof spec.isAvailable === 'function') return spec;
 
-      // Get pubkey if not already fetched
-      if (!this.extensionPubkey) {
-        try {
-          this.extensionPubkey = await this.extension.getMyPubkey();
-        } catch {
-          // Fall back to NIP-07 window.nostr.getPublicKey()
-          if (win.nostr?.getPublicKey) {
-            try {
-              this.extensionPubkey = await win.nostr.getPublicKey();
-            } catch {
-              // Ignore - will use fallback pubkey
-            }
-          }
-        }
-      }
+    throw new ValidationError(
+      `backends[${index}] must be 'extension', 'oracle', a LocalGraph or a WoTBackend`,
+      'backends'
+    );
+  }
 
-      return this.extension;
+  /**
+   * Checks backend availability, treating errors as unavailable
+   */
+  private async isAvailable(backend: WoTBackend): Promise<boolean> {
+    try {
+      return await backend.isAvailable();
+    } catch {
+      return false;
     }
-
-    // Extension not available - will fall back to oracle
-    this.extension = null;
-    return null;
   }
 
   /**
-   * Gets the effective pubkey (from extension or fallback)
+   * Gets the effective pubkey (from the first backend that has one, or fallback)
+   * @param signal - Aborts the NIP-05 lookup of a view's root
    */
-  private async getEffectivePubkey(): Promise<string> {
-    // Try to get extension first
-    await this.getExtension();
+  private async getEffectivePubkey(signal?: AbortSignal): Promise<string> {
+    if (this.scopedRoot) {
+      return this.resolvePubkeyParam(this.scopedRoot, 'root', signal);
+    }
 
-    // Use extension pubkey if available
-    if (this.extensionPubkey) {
-      return this.extensionPubkey;
+    // Backends in priority order - the extension's pubkey wins by default
+    for (const backend of this.backends) {
+      if (!has(backend, 'getPubkey') || !(await this.isAvailable(backend))) continue;
+      try {
+        const pubkey = await backend.getPubkey!();
+        if (pubkey) return normalizePubkey(pubkey);
+      } catch {
+        // Ignore - try next backend, then fallback pubkey
+      }
     }
 
     // Fall back to provided pubkey
@@ -139,290 +488,1081 @@ export class WoT {
   }
 
   /**
-   * Makes an API request to the oracle
+   * Builds the query context passed to backends
+   * @param root - Explicit root pubkey, defaults to the effective pubkey
    */
-  private async apiRequest<T>(
-    endpoint: string,
-    options: QueryOptions = {}
-  ): Promise<T> {
-    const timeout = options.timeout ?? this.timeout;
-    const url = `${this.oracle}/api${endpoint}`;
+  private async buildQuery(options?: QueryOptions, root?: string): Promise<BackendQuery> {
+    const query: BackendQuery = {
+      root: root ?? (await this.getEffectivePubkey(options?.signal)),
+      maxHops: options?.maxHops ?? this.maxHops,
+      timeout: options?.timeout ?? this.timeout,
+      signal: options?.signal,
+    };
+
+    const trace = (options as TracedOptions | undefined)?.trace;
+    if (trace) {
+      traces.set(query, trace);
+      trace.root ??= query.root;
+      trace.maxHops ??= query.maxHops;
+    }
+    return query;
+  }
 
-    let response: Response;
+  /**
+   * Runs a query in withMeta form
+   *
+   * Failures other than aborts and invalid input become the fallback
+   * value with an `error`, so callers can tell "unknown" from "not trusted".
+   */
+  private async withMeta<T>(
+    options: QueryOptions,
+    fallback: T,
+    run: (options: QueryOptions) => Promise<T>
+  ): Promise<WithMeta<T>> {
+    const trace: Trace = {};
+    const traced: TracedOptions = { ...options, withMeta: false, trace };
+
+    let value: T;
+    let error: Error | undefined;
     try {
-      response = await fetchWithTimeout(url, {
-        timeout,
-        headers: {
-          'Content-Type': 'application/json',
-        },
-      });
-    } catch (error) {
-      if (error instanceof Error) {
-        if (error.name === 'AbortError') {
-          throw new TimeoutError(timeout);
-        }
-        throw new NetworkError(error.message, undefined, url);
-      }
-      throw new NetworkError('Unknown network error', undefined, url);
+      value = await run(traced);
+    } catch (e) {
+      if (e instanceof AbortError || e instanceof ValidationError) throw e;
+      value = fallback;
+      error = toError(e);
+    }
+
+    const source = error ? null : trace.source ?? (trace.cached ? 'cache' : null);
+    if (!error && source === null) {
+      error = new WoTError('No available backend could answer');
     }
 
-    if (!response.ok) {
-      if (response.status === 404) {
-        throw new NotFoundError('', `Resource not found: ${endpoint}`);
+    const meta: ResultMeta = {
+      source,
+      rootPubkey: trace.root ?? null,
+      maxHops: trace.maxHops ?? options.maxHops ?? this.maxHops,
+      fetchedAt: trace.fetchedAt ?? Date.now(),
+    };
+    if (error) meta.error = error;
+    return { value, meta };
+  }
+
+  /**
+   * Runs a query against the configured backends using the query strategy
+   * @param supports - Whether a backend can answer the query
+   * @param call - Query to run against a chosen backend
+   * @param options - Query options (strategy, maxHops, timeout)
+   * @param prebuilt - Query context, built from options when omitted
+   * @returns Value and answering backend, or null if no backend can answer
+   */
+  private async route<T>(
+    supports: (backend: WoTBackend) => boolean,
+    call: (backend: WoTBackend, query: BackendQuery) => Promise<T>,
+    options?: QueryOptions,
+    prebuilt?: BackendQuery
+  ): Promise<Routed<T> | null> {
+    const strategy = options?.strategy ?? this.strategy;
+    const candidates = this.backends.filter(supports);
+    throwIfAborted(prebuilt ? prebuilt.signal : options?.signal);
+
+    // Query context is only resolved once a backend can answer
+    let query = prebuilt;
+    const getQuery = async () => (query ??= await this.buildQuery(options));
+
+    if (strategy === 'race') {
+      const available: WoTBackend[] = [];
+      for (const backend of candidates) {
+        if (await this.isAvailable(backend)) available.push(backend);
       }
-      throw new NetworkError(
-        `HTTP ${response.status}: ${response.statusText}`,
-        response.status,
-        url
+      if (available.length === 0) return null;
+
+      const resolved = await getQuery();
+      const routed = await firstFulfilled(
+        available.map(async (backend) => ({
+          value: await call(backend, resolved),
+          backend,
+        }))
       );
+      record(resolved, routed.backend.kind, Date.now());
+      return routed;
     }
 
-    return (await response.json()) as T;
+    let failure: { error: unknown } | null = null;
+    for (const backend of candidates) {
+      if (!(await this.isAvailable(backend))) continue;
+
+      try {
+        const resolved = await getQuery();
+        const value = await call(backend, resolved);
+        record(resolved, backend.kind, Date.now());
+        return { value, backend };
+      } catch (error) {
+        // A cancelled query is not retried on the next backend
+        if (error instanceof AbortError) throw error;
+        if (strategy === 'first-available' && !this.canFallBack(backend, error)) throw error;
+        // Remember the error and try the next backend
+        failure = { error };
+      }
+    }
+
+    if (failure) throw failure.error;
+    return null;
   }
 
   /**
-   * Validates a pubkey parameter
+   * Whether a failed first-available query may continue with the next backend
+   * (only extension timeouts and errors, with `extensionFallback`)
+   */
+  private canFallBack(backend: WoTBackend, error: unknown): boolean {
+    return (
+      this.extensionFallback &&
+      backend.kind === 'extension' &&
+      (error instanceof TimeoutError || error instanceof ExtensionError)
+    );
+  }
+
+  /**
+   * Like route(), but throws when no backend can answer
+   */
+  private async routeRequired<T>(
+    method: string,
+    supports: (backend: WoTBackend) => boolean,
+    call: (backend: WoTBackend, query: BackendQuery) => Promise<T>,
+    options?: QueryOptions,
+    prebuilt?: BackendQuery
+  ): Promise<T> {
+    const routed = await this.route(supports, call, options, prebuilt);
+    if (!routed) {
+      throw new WoTError(`No available backend can answer ${method}`);
+    }
+    return routed.value;
+  }
+
+  /**
+   * Validates a pubkey parameter (hex, npub or nprofile)
    */
   private validatePubkey(pubkey: string, paramName: string): string {
-    if (!pubkey) {
-      throw new ValidationError(`${paramName} is required`, paramName);
+    return parsePubkey(pubkey, paramName);
+  }
+
+  /**
+   * Resolves a pubkey parameter to hex, including NIP-05 identifiers
+   * @param signal - Aborts a NIP-05 lookup
+   */
+  private async resolvePubkeyParam(
+    pubkey: string,
+    paramName: string,
+    signal?: AbortSignal
+  ): Promise<string> {
+    const trimmed = typeof pubkey === 'string' ? pubkey.trim() : '';
+
+    if (isNip05Identifier(trimmed)) {
+      if (!this.nip05) {
+        throw new ValidationError(
+          `${paramName} is a NIP-05 identifier, but NIP-05 resolution is disabled - expected ${PUBKEY_FORMATS}`,
+          paramName
+        );
+      }
+
+      const resolved = await this.nip05.resolve(trimmed, signal);
+      if (!resolved) {
+        throw new NotFoundError(trimmed, `NIP-05 identifier not found: ${trimmed}`);
+      }
+      return resolved;
     }
-    if (!isValidPubkey(pubkey)) {
+
+    if (trimmed && !isValidPubkey(trimmed) && !isNpub(trimmed) && !isNprofile(trimmed)) {
       throw new ValidationError(
-        `${paramName} must be a valid 64-character hex string`,
+        `${paramName} must be a 64-character hex, npub1..., nprofile1... or NIP-05 name@domain string`,
         paramName
       );
     }
-    return normalizePubkey(pubkey);
+    return this.validatePubkey(pubkey, paramName);
+  }
+
+  /**
+   * Validates and resolves a batch targets parameter
+   */
+  private async resolveTargets(targets: string[], signal?: AbortSignal): Promise<string[]> {
+    if (!Array.isArray(targets) || targets.length === 0) {
+      throw new ValidationError('targets must be a non-empty array', 'targets');
+    }
+    if (targets.length > MAX_BATCH_SIZE) {
+      throw new ValidationError(
+        `targets array exceeds maximum size of ${MAX_BATCH_SIZE}`,
+        'targets'
+      );
+    }
+
+    return this.limiter.map(targets, (t, i) =>
+      this.resolvePubkeyParam(t, `targets[${i}]`, signal)
+    );
+  }
+
+  // ============================================
+  // Result cache
+  // ============================================
+
+  /**
+   * Builds a cache key - results depend on root pubkey and maxHops
+   */
+  private cacheKey(kind: CacheKind, query: BackendQuery, target: string): string {
+    return `${kind}|${query.root}|${query.maxHops}|${target}`;
+  }
+
+  /**
+   * Reads a cached result
+   * @returns Cached value, or undefined on miss
+   */
+  private fromCache<T>(kind: CacheKind, query: BackendQuery, target: string): T | undefined {
+    const key = this.cacheKey(kind, query, target);
+    const value = this.cache?.get(key) as T | undefined;
+    if (value !== undefined && traces.has(query)) {
+      record(query, 'cache', this.cache!.storedAt(key)!);
+    }
+    return value;
+  }
+
+  /**
+   * Stores a result in the cache
+   */
+  private toCache(kind: CacheKind, query: BackendQuery, target: string, value: unknown): void {
+    this.cache?.set(this.cacheKey(kind, query, target), value);
+  }
+
+  /**
+   * Stores a details result, along with the distance, score and paths it implies
+   */
+  private cacheDetails(query: BackendQuery, target: string, details: DistanceResult | null): void {
+    this.toCache('details', query, target, details);
+    this.toCache('distance', query, target, details ? details.hops : null);
+    this.toCache('score', query, target, details ? details.score : null);
+    if (details) this.toCache('paths', query, target, details.paths);
+  }
+
+  /**
+   * Remove cached results for a pubkey (as target or as root)
+   * @param pubkey - Pubkey to invalidate (hex, npub or nprofile)
+   */
+  invalidate(pubkey: string): void {
+    const normalized = this.validatePubkey(pubkey, 'pubkey');
+    this.cache?.deleteWhere((key) => {
+      const [, root, , target] = key.split('|');
+      return root === normalized || target === normalized;
+    });
+  }
+
+  /**
+   * Remove all cached results
+   */
+  clear(): void {
+    this.cache?.clear();
+  }
+
+  // ============================================
+  // Request coalescing
+  // ============================================
+
+  /**
+   * Shares one request between identical in-flight queries
+   *
+   * The request runs with its own signal, which aborts once every caller
+   * has aborted - a caller that aborts only stops waiting. The request is
+   * traced on its own, and every caller adopts that trace.
+   */
+  private async coalesce<T>(
+    key: string,
+    query: BackendQuery,
+    run: (query: BackendQuery) => Promise<T>
+  ): Promise<T> {
+    let entry = this.inflight.get(key);
+    if (!entry || entry.group.aborted) {
+      const group = new AbortGroup();
+      const shared: BackendQuery = { ...query, signal: group.signal };
+      const trace: Trace = {};
+      traces.set(shared, trace);
+
+      const created: Inflight = {
+        promise: run(shared).finally(() => {
+          if (this.inflight.get(key) === created) this.inflight.delete(key);
+        }),
+        group,
+        trace,
+      };
+      this.inflight.set(key, created);
+      entry = created;
+    }
+
+    const value = await entry.group.join(entry.promise as Promise<T>, query.signal);
+    adopt(query, entry.trace);
+    return value;
+  }
+
+  /**
+   * Builds an in-flight request key
+   */
+  private requestKey(
+    method: string,
+    query: BackendQuery,
+    target: string,
+    options?: QueryOptions
+  ): string {
+    const strategy = options?.strategy ?? this.strategy;
+    return `${method}|${query.root}|${query.maxHops}|${strategy}|${target}`;
+  }
+
+  /**
+   * Gets the auto-batch loader for a query context
+   *
+   * Distances and scores come from the same batch check (one oracle
+   * /batch request), which caches both.
+   */
+  private getLoader(
+    query: BackendQuery,
+    options: QueryOptions | undefined,
+    batching: Required<BatchingOptions>
+  ): BatchLoader<Traced<BatchResult>> {
+    const strategy = options?.strategy ?? this.strategy;
+    const { root, maxHops, timeout } = query;
+    const key = `check|${root}|${maxHops}|${timeout}|${strategy}`;
+
+    let loader = this.loaders.get(key);
+    if (!loader) {
+      // Batches are shared - each one runs with its own signal and trace
+      loader = new BatchLoader<Traced<BatchResult>>(
+        async (keys, signal) => {
+          const batch: BackendQuery = { root, maxHops, timeout, signal };
+          const trace: Trace = {};
+          traces.set(batch, trace);
+
+          const results = await this.checkTargets(keys, batch, { strategy });
+
+          const loaded: Record<string, Traced<BatchResult>> = {};
+          for (const [pubkey, result] of results) {
+            loaded[pubkey] = { value: result, trace };
+          }
+          return loaded;
+        },
+        batching.window,
+        batching.maxBatchSize
+      );
+      this.loaders.set(key, loader);
+    }
+    return loader;
   }
 
   /**
    * Get shortest path length to target pubkey
-   * @param target - Target pubkey (hex)
+   * @param target - Target pubkey (hex, npub, nprofile or NIP-05)
    * @param options - Query options
    * @returns Number of hops or null if not reachable
    */
+  getDistance(target: string, options: MetaQueryOptions): Promise<WithMeta<number | null>>;
+  getDistance(target: string, options?: QueryOptions): Promise<number | null>;
   async getDistance(
     target: string,
     options?: QueryOptions
-  ): Promise<number | null> {
-    const normalizedTarget = this.validatePubkey(target, 'target');
-
-    // Check extension first - extension always takes priority
-    const ext = await this.getExtension();
-    if (ext) {
-      return ext.getDistance(normalizedTarget);
+  ): Promise<number | null | WithMeta<number | null>> {
+    if (options?.withMeta) {
+      return this.withMeta(options, null, (o) => this.getDistance(target, o));
     }
 
-    // Fall back to oracle
-    const myPubkey = await this.getEffectivePubkey();
-    const maxHops = options?.maxHops ?? this.maxHops;
-
-    interface DistanceResponse {
-      distance: number | null;
-    }
+    const normalizedTarget = await this.resolvePubkeyParam(target, 'target', options?.signal);
+    const query = await this.buildQuery(options);
+
+    const cached = this.fromCache<number | null>('distance', query, normalizedTarget);
+    if (cached !== undefined) return cached;
+
+    const batching = this.batching;
+    return this.coalesce(
+      this.requestKey('getDistance', query, normalizedTarget, options),
+      query,
+      async (shared) => {
+        if (batching) {
+          const loaded = await this.getLoader(shared, options, batching).load(
+            normalizedTarget,
+            shared.signal
+          );
+          adopt(shared, loaded?.trace);
+          return loaded ? loaded.value.distance : null;
+        }
 
-    try {
-      const result = await this.apiRequest<DistanceResponse>(
-        `/distance/${myPubkey}/${normalizedTarget}?maxHops=${maxHops}`,
-        options
-      );
-      return result.distance;
-    } catch (error) {
-      if (error instanceof NotFoundError) {
-        return null;
+        const distance = await this.routeRequired(
+          'getDistance',
+          (b) => has(b, 'getDistance'),
+          (b, q) => b.getDistance!(normalizedTarget, q),
+          options,
+          shared
+        );
+        this.toCache('distance', shared, normalizedTarget, distance);
+        return distance;
       }
-      throw error;
-    }
+    );
   }
 
   /**
    * Check if target is within your Web of Trust
-   * @param target - Target pubkey (hex)
+   * @param target - Target pubkey (hex, npub, nprofile or NIP-05)
    * @param options - Query options
    * @returns true if target is within maxHops
    */
-  async isInMyWoT(target: string, options?: QueryOptions): Promise<boolean> {
-    const normalizedTarget = this.validatePubkey(target, 'target');
+  isInMyWoT(target: string, options: MetaQueryOptions): Promise<WithMeta<boolean>>;
+  isInMyWoT(target: string, options?: QueryOptions): Promise<boolean>;
+  async isInMyWoT(
+    target: string,
+    options?: QueryOptions
+  ): Promise<boolean | WithMeta<boolean>> {
+    if (options?.withMeta) {
+      return this.withMeta(options, false, (o) => this.isInMyWoT(target, o));
+    }
 
-    // Check extension first - extension always takes priority
-    const ext = await this.getExtension();
-    if (ext) {
-      const maxHops = options?.maxHops ?? this.maxHops;
-      return ext.isInMyWoT(normalizedTarget, maxHops);
+    const normalizedTarget = await this.resolvePubkeyParam(target, 'target', options?.signal);
+
+    // Thresholds need scores and path details - use the batch path
+    if (hasThresholds(options)) {
+      const results = await this.batchCheck([normalizedTarget], options);
+      return results.get(normalizedTarget)?.inWoT ?? false;
     }
 
-    // Fall back to oracle
-    const distance = await this.getDistance(normalizedTarget, options);
-    const maxHops = options?.maxHops ?? this.maxHops;
+    const query = await this.buildQuery(options);
+
+    // A cached distance answers the question without a backend call
+    const cached = this.fromCache<number | null>('distance', query, normalizedTarget);
+    const inWoT =
+      cached !== undefined
+        ? cached !== null && cached <= query.maxHops
+        : await this.fetchInMyWoT(normalizedTarget, query, options);
+    if (!inWoT) return false;
+
+    const summary = await this.getSignalSummary(normalizedTarget, query, options);
+    return !summary?.blockedBy;
+  }
 
-    return distance !== null && distance <= maxHops;
+  /**
+   * Asks the backends whether a target is within maxHops (no signals applied)
+   */
+  private fetchInMyWoT(
+    normalizedTarget: string,
+    query: BackendQuery,
+    options?: QueryOptions
+  ): Promise<boolean> {
+    return this.coalesce(
+      this.requestKey('isInMyWoT', query, normalizedTarget, options),
+      query,
+      (shared) =>
+        this.routeRequired(
+          'isInMyWoT',
+          (b) => has(b, 'isInMyWoT') || has(b, 'getDistance'),
+          async (b, q) => {
+            if (has(b, 'isInMyWoT')) {
+              return b.isInMyWoT!(normalizedTarget, q);
+            }
+            const distance = await b.getDistance!(normalizedTarget, q);
+            this.toCache('distance', q, normalizedTarget, distance);
+            return distance !== null && distance <= q.maxHops;
+          },
+          options,
+          shared
+        )
+    );
   }
 
   /**
-   * Get computed trust score from extension
-   * @param target - Target pubkey (hex)
-   * @returns Trust score between 0 and 1, or 0 if not connected or extension unavailable
+   * Get computed trust score
+   * @param target - Target pubkey (hex, npub, nprofile or NIP-05)
+   * @param options - Query options
+   * @returns Trust score between 0 and 1, or 0 if not connected
+   *
+   * Note: Extension scores come from the extension. Oracle and local graph
+   * scores are computed by the SDK using the `scoring` option. The
+   * `pagerank` and `graperank` algorithms are computed over a local graph.
    */
-  async getTrustScore(target: string): Promise<number> {
-    const normalizedTarget = this.validatePubkey(target, 'target');
+  getTrustScore(target: string, options: MetaQueryOptions): Promise<WithMeta<number>>;
+  getTrustScore(target: string, options?: QueryOptions): Promise<number>;
+  async getTrustScore(
+    target: string,
+    options?: QueryOptions
+  ): Promise<number | WithMeta<number>> {
+    if (options?.withMeta) {
+      return this.withMeta(options, 0, (o) => this.getTrustScore(target, o));
+    }
 
-    // Trust scores come from extension only
-    const ext = await this.getExtension();
-    if (ext) {
-      const score = await ext.getTrustScore(normalizedTarget);
-      return score ?? 0;
+    const normalizedTarget = await this.resolvePubkeyParam(target, 'target', options?.signal);
+    const query = await this.buildQuery(options);
+
+    const algorithm = options?.algorithm ?? this.algorithm;
+    let score: number | null;
+    if (algorithm === 'hop-decay') {
+      const cached = this.fromCache<number | null>('score', query, normalizedTarget);
+      score =
+        cached !== undefined
+          ? cached
+          : await this.fetchTrustScore(normalizedTarget, query, options);
+    } else {
+      const ranked = await this.fetchRankScores([normalizedTarget], algorithm, query, options);
+      score = ranked[normalizedTarget];
     }
+    if (!score) return 0;
+
+    const summary = await this.getSignalSummary(normalizedTarget, query, options);
+    return summary ? penalize(score, summary) : score;
+  }
+
+  /**
+   * Fetches a trust score from the backends (no signals applied)
+   * @returns Score, or null if no backend can calculate trust scores
+   */
+  private fetchTrustScore(
+    normalizedTarget: string,
+    query: BackendQuery,
+    options?: QueryOptions
+  ): Promise<number | null> {
+    const batching = this.batching;
+    return this.coalesce(
+      this.requestKey('getTrustScore', query, normalizedTarget, options),
+      query,
+      async (shared) => {
+        if (batching) {
+          const loaded = await this.getLoader(shared, options, batching).load(
+            normalizedTarget,
+            shared.signal
+          );
+          adopt(shared, loaded?.trace);
+          return loaded ? loaded.value.score : null;
+        }
+
+        const routed = await this.route(
+          (b) => has(b, 'getTrustScore'),
+          (b, q) => b.getTrustScore!(normalizedTarget, q),
+          options,
+          shared
+        );
+
+        // No backend can calculate trust scores
+        if (!routed) return null;
 
-    // No extension - cannot calculate trust score
-    return 0;
+        this.toCache('score', shared, normalizedTarget, routed.value);
+        return routed.value;
+      }
+    );
+  }
+
+  /**
+   * Scores targets with a graph ranking algorithm (no signals applied)
+   * @throws WoTError if no backend can rank (needs a local graph)
+   */
+  private async fetchRankScores(
+    normalizedTargets: string[],
+    algorithm: RankingAlgorithm,
+    query: BackendQuery,
+    options?: QueryOptions
+  ): Promise<Record<string, number | null>> {
+    const routed = await this.route(
+      (b) => has(b, 'getRankScores'),
+      (b, q) => b.getRankScores!(normalizedTargets, algorithm, q),
+      options,
+      query
+    );
+    if (!routed) {
+      throw new WoTError(`The ${algorithm} algorithm needs a local graph backend`);
+    }
+    return routed.value;
   }
 
   /**
    * Get distance between any two pubkeys
-   * @param from - Source pubkey (hex)
-   * @param to - Target pubkey (hex)
+   * @param from - Source pubkey (hex, npub, nprofile or NIP-05)
+   * @param to - Target pubkey (hex, npub, nprofile or NIP-05)
    * @param options - Query options
    * @returns Number of hops or null if not reachable
    */
+  getDistanceBetween(
+    from: string,
+    to: string,
+    options: MetaQueryOptions
+  ): Promise<WithMeta<number | null>>;
+  getDistanceBetween(from: string, to: string, options?: QueryOptions): Promise<number | null>;
   async getDistanceBetween(
     from: string,
     to: string,
     options?: QueryOptions
-  ): Promise<number | null> {
-    const normalizedFrom = this.validatePubkey(from, 'from');
-    const normalizedTo = this.validatePubkey(to, 'to');
+  ): Promise<number | null | WithMeta<number | null>> {
+    if (options?.withMeta) {
+      return this.withMeta(options, null, (o) => this.getDistanceBetween(from, to, o));
+    }
+
+    const normalizedFrom = await this.resolvePubkeyParam(from, 'from', options?.signal);
+    const normalizedTo = await this.resolvePubkeyParam(to, 'to', options?.signal);
 
-    // Check extension first - extension always takes priority
-    const ext = await this.getExtension();
-    if (ext) {
-      return ext.getDistanceBetween(normalizedFrom, normalizedTo);
+    return this.routeRequired(
+      'getDistanceBetween',
+      (b) => has(b, 'getDistanceBetween'),
+      (b, query) => b.getDistanceBetween!(normalizedFrom, normalizedTo, query),
+      options,
+      await this.buildQuery(options, normalizedFrom)
+    );
+  }
+
+  /**
+   * Check multiple pubkeys efficiently
+   * @param targets - Array of target pubkeys (hex, npub, nprofile or NIP-05)
+   * @param options - Query options
+   * @returns Map of hex pubkey to result
+   */
+  batchCheck(
+    targets: string[],
+    options: MetaQueryOptions
+  ): Promise<WithMeta<Map<string, BatchResult>>>;
+  batchCheck(targets: string[], options?: QueryOptions): Promise<Map<string, BatchResult>>;
+  async batchCheck(
+    targets: string[],
+    options?: QueryOptions
+  ): Promise<Map<string, BatchResult> | WithMeta<Map<string, BatchResult>>> {
+    if (options?.withMeta) {
+      return this.withMeta(options, new Map(), (o) => this.batchCheck(targets, o));
     }
 
-    // Fall back to oracle
-    const maxHops = options?.maxHops ?? this.maxHops;
+    const normalizedTargets = await this.resolveTargets(targets, options?.signal);
+    const query = await this.buildQuery(options);
+    return this.checkBatch(normalizedTargets, query, options);
+  }
 
-    interface DistanceResponse {
-      distance: number | null;
+  /**
+   * Check multiple pubkeys, reporting failures per pubkey instead of throwing
+   *
+   * A failed oracle chunk only fails its own pubkeys; the others still
+   * get results. So do failures of the later steps (ranking, hybrid
+   * details, negative signals and thresholds): they only fail the pubkeys
+   * they affect. Aborted queries and invalid input still throw.
+   *
+   * @param targets - Array of target pubkeys (hex, npub, nprofile or NIP-05)
+   * @param options - Query options
+   * @returns Map of hex pubkey to `{ status: 'ok', result }` or `{ status: 'error', error }`
+   */
+  async batchCheckSettled(
+    targets: string[],
+    options?: QueryOptions
+  ): Promise<Map<string, SettledBatchResult>> {
+    const normalizedTargets = await this.resolveTargets(targets, options?.signal);
+    const query = await this.buildQuery(options);
+
+    const errors = new Map<string, Error>();
+    const results = await this.checkBatch(
+      normalizedTargets,
+      query,
+      { ...options, withMeta: false },
+      errors
+    );
+
+    const settled = new Map<string, SettledBatchResult>();
+    for (const pubkey of normalizedTargets) {
+      const result = results.get(pubkey);
+      const error = errors.get(pubkey);
+      if (result) {
+        settled.set(pubkey, { status: 'ok', pubkey, result });
+      } else if (error) {
+        settled.set(pubkey, { status: 'error', pubkey, error });
+      }
     }
+    return settled;
+  }
+
+  /**
+   * Check an unbounded stream of pubkeys, yielding results as chunks complete
+   *
+   * The input is read lazily in chunks, with up to `concurrency` chunks
+   * checked at once. Entries come in chunk completion order. Invalid
+   * pubkeys and failed lookups are yielded as error entries and do not
+   * stop the stream. Breaking out of the loop stops reading the input and
+   * aborts the chunks still in flight.
+   *
+   * @param pubkeys - Pubkeys (hex, npub, nprofile or NIP-05), as an array or (async) iterable
+   * @param options - Query options, chunk size, concurrency and progress callback
+   * @returns `{ status: 'ok', result }` or `{ status: 'error', error }` per pubkey
+   *
+   * @example
+   * ```ts
+   * for await (const entry of wot.streamBatch(followers, { onProgress: render })) {
+   *   if (entry.status === 'ok' && entry.result.inWoT) show(entry.pubkey);
+   * }
+   * ```
+   */
+  async *streamBatch(
+    pubkeys: Iterable<string> | AsyncIterable<string>,
+    options?: StreamBatchOptions
+  ): AsyncGenerator<SettledBatchResult, void, undefined> {
+    const {
+      chunkSize = DEFAULT_STREAM_CHUNK_SIZE,
+      concurrency = DEFAULT_BATCH_CONCURRENCY,
+      onProgress,
+      signal,
+      ...queryOptions
+    } = options ?? {};
+
+    // Aborts the chunks in flight when the caller aborts or stops iterating
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+    if (signal?.aborted) controller.abort();
+
+    const checkOptions: QueryOptions = {
+      ...queryOptions,
+      signal: controller.signal,
+      withMeta: false,
+    };
+    const progress: BatchProgress = {
+      done: 0,
+      failed: 0,
+      total: Array.isArray(pubkeys) ? pubkeys.length : null,
+    };
+    const chunks = chunkIterable(pubkeys, Math.max(1, chunkSize));
+
+    type Checked = {
+      id: number;
+      size: number;
+      done: number;
+      results: Map<string, BatchResult>;
+      errors: Map<string, Error>;
+    };
+    const running = new Map<number, Promise<Checked>>();
+    let nextId = 0;
+    let exhausted = false;
 
     try {
-      const result = await this.apiRequest<DistanceResponse>(
-        `/distance/${normalizedFrom}/${normalizedTo}?maxHops=${maxHops}`,
-        options
-      );
-      return result.distance;
+      const query = await this.buildQuery(checkOptions);
+
+      while (true) {
+        while (!exhausted && running.size < Math.max(1, concurrency)) {
+          const next = await chunks.next();
+          if (next.done) {
+            exhausted = true;
+            break;
+          }
+
+          const id = nextId++;
+          const size = next.value.length;
+          const errors = new Map<string, Error>();
+          const task = this.checkChunk(next.value, query, checkOptions, errors).then(
+            ({ results, done }) => ({ id, size, done, results, errors })
+          );
+          // Rejections (aborts) surface through Promise.race below
+          task.catch(() => undefined);
+          running.set(id, task);
+        }
+        if (running.size === 0) break;
+
+        const { id, size, done, results, errors } = await Promise.race(running.values());
+        running.delete(id);
+
+        // Counted per input pubkey, so duplicates add up to total
+        progress.done += done;
+        progress.failed += size - done;
+        onProgress?.({ ...progress });
+
+        for (const [pubkey, result] of results) {
+          yield { status: 'ok', pubkey, result };
+        }
+        for (const [pubkey, error] of errors) {
+          yield { status: 'error', pubkey, error };
+        }
+      }
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+      controller.abort();
+      await chunks.return();
+    }
+  }
+
+  /**
+   * Checks one streamBatch chunk, collecting failures instead of throwing
+   * @returns Results by pubkey, and how many input pubkeys got one
+   */
+  private async checkChunk(
+    pubkeys: string[],
+    query: BackendQuery,
+    options: QueryOptions,
+    errors: Map<string, Error>
+  ): Promise<{ results: Map<string, BatchResult>; done: number }> {
+    const normalized: string[] = [];
+    await this.limiter.map(pubkeys, async (pubkey, i) => {
+      try {
+        normalized[i] = await this.resolvePubkeyParam(pubkey, 'pubkey', query.signal);
+      } catch (error) {
+        errors.set(String(pubkey), toError(error));
+      }
+    });
+
+    const targets = normalized.filter((pubkey): pubkey is string => pubkey !== undefined);
+    if (targets.length === 0) return { results: new Map(), done: 0 };
+
+    try {
+      const results = await this.checkBatch(targets, query, options, errors);
+      const done = targets.filter((pubkey) => results.has(pubkey)).length;
+      return { results, done };
     } catch (error) {
-      if (error instanceof NotFoundError) {
-        return null;
+      if (error instanceof AbortError) throw error;
+      for (const pubkey of targets) {
+        errors.set(pubkey, toError(error));
       }
-      throw error;
+      return { results: new Map(), done: 0 };
     }
   }
 
   /**
-   * Check multiple pubkeys efficiently
-   * @param targets - Array of target pubkeys (hex)
-   * @param options - Query options
-   * @returns Map of pubkey to result
+   * Batch check with scores, hybrid details, signals and thresholds applied
+   * @param errors - Collects per-pubkey failures instead of throwing them
    */
-  async batchCheck(
-    targets: string[],
-    options?: QueryOptions
+  private async checkBatch(
+    normalizedTargets: string[],
+    query: BackendQuery,
+    options?: QueryOptions,
+    errors?: Map<string, Error>
   ): Promise<Map<string, BatchResult>> {
-    if (!Array.isArray(targets) || targets.length === 0) {
-      throw new ValidationError('targets must be a non-empty array', 'targets');
+    const results = await this.checkTargets(normalizedTargets, query, options, errors);
+
+    // Collected failures of the later steps drop the affected results
+    const fail: FailPubkeys | undefined = errors
+      ? (pubkeys, error) => {
+          if (error instanceof AbortError) throw error;
+          for (const pubkey of pubkeys) {
+            errors.set(pubkey, toError(error));
+            results.delete(pubkey);
+          }
+        }
+      : undefined;
+
+    const algorithm = options?.algorithm ?? this.algorithm;
+    if (algorithm !== 'hop-decay' && results.size > 0) {
+      const ranked = Array.from(results.keys());
+      try {
+        const scores = await this.fetchRankScores(ranked, algorithm, query, options);
+        for (const [pubkey, result] of results) {
+          results.set(pubkey, { ...result, score: scores[pubkey] ?? 0 });
+        }
+      } catch (error) {
+        if (!fail) throw error;
+        fail(ranked, error);
+      }
     }
-    if (targets.length > MAX_BATCH_SIZE) {
-      throw new ValidationError(
-        `targets array exceeds maximum size of ${MAX_BATCH_SIZE}`,
-        'targets'
-      );
+
+    if (options?.hybrid ?? this.hybrid) {
+      await this.mergeDetails(results, query, options, algorithm === 'hop-decay', fail);
     }
 
-    const normalizedTargets = targets.map((t, i) =>
-      this.validatePubkey(t, `targets[${i}]`)
-    );
+    const signals = await this.getSignalSummaries(normalizedTargets, query, options, fail);
+
+    for (const [pubkey, summary] of signals) {
+      const result = results.get(pubkey);
+      if (!result) continue;
+      results.set(pubkey, applySignals(result, summary));
+    }
+
+    await this.applyThresholds(results, query, options, fail);
+    return results;
+  }
+
+  /**
+   * Adds hybrid details (paths, bridges, mutual and sources) to reachable batch results
+   * @param withScore - Whether the score is the backend's (not a ranking score)
+   * @param fail - Collects per-pubkey failures instead of throwing them
+   */
+  private async mergeDetails(
+    results: Map<string, BatchResult>,
+    query: BackendQuery,
+    options: QueryOptions | undefined,
+    withScore: boolean,
+    fail?: FailPubkeys
+  ): Promise<void> {
+    await this.limiter.map(Array.from(results.values()), async (result) => {
+      if (result.distance === null) return;
+
+      let details: DistanceResult | null;
+      try {
+        const cached = this.fromCache<DistanceResult | null>('details', query, result.pubkey);
+        details =
+          cached?.sources || cached === null
+            ? cached
+            : await this.fetchDetails(result.pubkey, query, options);
+      } catch (error) {
+        if (!fail) throw error;
+        fail([result.pubkey], error);
+        return;
+      }
+      if (!details) return;
+
+      const { hops, score, ...sources } = details.sources ?? {};
+      results.set(result.pubkey, {
+        ...result,
+        paths: details.paths,
+        bridges: details.bridges,
+        mutual: details.mutual,
+        sources: { distance: hops, ...sources, ...(withScore ? { score } : {}) },
+      });
+    });
+  }
 
-    const maxHops = options?.maxHops ?? this.maxHops;
+  /**
+   * Marks results that fail minPaths, minDistinctBridges or minScore
+   *
+   * Path and bridge counts come from getDetails (cached). Direct follows
+   * pass both. Backends that return no `bridges` fail minDistinctBridges.
+   * @param fail - Collects per-pubkey failures instead of throwing them
+   */
+  private async applyThresholds(
+    results: Map<string, BatchResult>,
+    query: BackendQuery,
+    options?: QueryOptions,
+    fail?: FailPubkeys
+  ): Promise<void> {
+    const { minPaths, minDistinctBridges, minScore } = options ?? {};
+    if (!hasThresholds(options)) return;
+
+    await this.limiter.map(Array.from(results.values()), async (result) => {
+      if (!result.inWoT) return;
+
+      const failed: TrustThreshold[] = [];
+      if (minScore !== undefined && result.score < minScore) {
+        failed.push('minScore');
+      }
 
-    // Check extension first - extension always takes priority
-    const ext = await this.getExtension();
-    if (ext) {
-      const results = new Map<string, BatchResult>();
+      const indirect = result.distance !== null && result.distance > 1;
+      if (indirect && (minPaths !== undefined || minDistinctBridges !== undefined)) {
+        let details: DistanceResult | null;
+        try {
+          const cached = this.fromCache<DistanceResult | null>('details', query, result.pubkey);
+          details =
+            cached !== undefined
+              ? cached
+              : await this.fetchDetails(result.pubkey, query, options);
+        } catch (error) {
+          if (!fail) throw error;
+          fail([result.pubkey], error);
+          return;
+        }
 
-      // Use extension's batch APIs for efficiency
-      const [distances, scores] = await Promise.all([
-        ext.getDistanceBatch(normalizedTargets),
-        ext.getTrustScoreBatch(normalizedTargets),
-      ]);
+        if (minPaths !== undefined && (details?.paths ?? 0) < minPaths) {
+          failed.push('minPaths');
+        }
+        if (
+          minDistinctBridges !== undefined &&
+          new Set(details?.bridges ?? []).size < minDistinctBridges
+        ) {
+          failed.push('minDistinctBridges');
+        }
+      }
 
-      for (const pubkey of normalizedTargets) {
-        const distance = distances[pubkey] ?? null;
-        const score = scores[pubkey] ?? 0;
+      if (failed.length > 0) {
+        results.set(result.pubkey, { ...result, inWoT: false, failedThresholds: failed });
+      }
+    });
+  }
 
-        results.set(pubkey, {
+  /**
+   * Batch check without negative signals
+   * Serves cached entries and fetches only the rest.
+   * @param errors - Collects per-pubkey failures instead of throwing them
+   */
+  private async checkTargets(
+    normalizedTargets: string[],
+    query: BackendQuery,
+    options?: QueryOptions,
+    errors?: Map<string, Error>
+  ): Promise<Map<string, BatchResult>> {
+    // Serve cached entries, fetch only the rest
+    const cached = new Map<string, BatchResult>();
+    const missing: string[] = [];
+    for (const pubkey of unique(normalizedTargets)) {
+      const distance = this.fromCache<number | null>('distance', query, pubkey);
+      const score = this.fromCache<number | null>('score', query, pubkey);
+      if (distance !== undefined && score !== undefined) {
+        cached.set(pubkey, {
           pubkey,
           distance,
-          score,
-          inWoT: distance !== null && distance <= maxHops,
+          score: score ?? 0,
+          inWoT: distance !== null && distance <= query.maxHops,
         });
+      } else {
+        missing.push(pubkey);
       }
-
-      return results;
     }
 
-    // Fall back to oracle batch API
-    const myPubkey = await this.getEffectivePubkey();
-    const results = new Map<string, BatchResult>();
+    let fetched = new Map<string, BatchResult>();
+    let failure: unknown = null;
+    if (missing.length > 0) {
+      try {
+        fetched = await this.routeRequired(
+          'batchCheck',
+          canBatch,
+          (b, q) => this.batchCheckWith(b, missing, q, options),
+          options,
+          query
+        );
+      } catch (error) {
+        if (error instanceof AbortError) throw error;
+        if (!(error instanceof BatchError) && !errors) throw error;
+        // Keep (and cache) the pubkeys that succeeded
+        if (error instanceof BatchError) fetched = error.results;
+        failure = error;
+      }
+    }
 
-    // Process in batches of 50 to avoid URL length limits
-    const batches = chunk(normalizedTargets, 50);
+    for (const [pubkey, result] of fetched) {
+      this.toCache('distance', query, pubkey, result.distance);
+      this.toCache('score', query, pubkey, result.score);
+    }
 
-    for (const batch of batches) {
-      interface BatchResponse {
-        results: Array<{
-          pubkey: string;
-          distance: number | null;
-          paths?: number;
-          mutual?: boolean;
-        }>;
+    if (failure) {
+      if (!errors) throw failure;
+      for (const pubkey of missing) {
+        if (fetched.has(pubkey)) continue;
+        const error = failure instanceof BatchError ? failure.errors.get(pubkey) : toError(failure);
+        if (error) errors.set(pubkey, error);
       }
+    }
 
-      try {
-        const response = await this.apiRequest<BatchResponse>(
-          `/batch/${myPubkey}?targets=${batch.join(',')}&maxHops=${maxHops}`,
-          options
-        );
+    // Keep input order
+    const results = new Map<string, BatchResult>();
+    for (const pubkey of normalizedTargets) {
+      const result = cached.get(pubkey) ?? fetched.get(pubkey);
+      if (result) results.set(pubkey, result);
+    }
+    return results;
+  }
 
-        for (const item of response.results) {
-          const inWoT = item.distance !== null && item.distance <= maxHops;
+  /**
+   * Runs a batch check against a single backend
+   * Uses the backend's native batchCheck, or composes it from batch
+   * distance and score lookups. Scores of backends that have none (a
+   * rerooted extension) come from the next backend that can score.
+   */
+  private async batchCheckWith(
+    backend: WoTBackend,
+    targets: string[],
+    query: BackendQuery,
+    options?: QueryOptions
+  ): Promise<Map<string, BatchResult>> {
+    if (has(backend, 'batchCheck')) {
+      return backend.batchCheck!(targets, query);
+    }
 
-          results.set(item.pubkey, {
-            pubkey: item.pubkey,
-            distance: item.distance,
-            score: 0, // Trust scores only available via extension
-            inWoT,
-          });
-        }
-      } catch (error) {
-        // If batch fails, fill with null results
-        for (const pubkey of batch) {
-          if (!results.has(pubkey)) {
-            results.set(pubkey, {
-              pubkey,
-              distance: null,
-              score: 0,
-              inWoT: false,
-            });
-          }
-        }
+    const [distances, scores] = await Promise.all([
+      this.distanceBatchWith(backend, targets, {}, query),
+      canScore(backend)
+        ? this.trustScoreBatchWith(backend, targets, query)
+        : this.fetchTrustScores(targets, query, options),
+    ]);
 
-        // Re-throw if not a transient error
-        if (!(error instanceof NetworkError)) {
-          throw error;
-        }
-      }
+    const results = new Map<string, BatchResult>();
+    for (const pubkey of targets) {
+      const distance = hopsOf(distances[pubkey]);
+      const score = scores[pubkey] ?? 0;
+
+      results.set(pubkey, {
+        pubkey,
+        distance,
+        score,
+        inWoT: distance !== null && distance <= query.maxHops,
+      });
     }
 
     return results;
@@ -430,49 +1570,187 @@ export class WoT {
 
   /**
    * Get distance and path count details
-   * @param target - Target pubkey (hex)
+   * @param target - Target pubkey (hex, npub, nprofile or NIP-05)
    * @param options - Query options
    * @returns Distance result or null if not reachable
    *
-   * Note: Extension returns `{ hops, paths }`. Oracle may return
-   * additional fields like `bridges` and `mutual`.
+   * Note: Extension returns `{ hops, paths }`. Oracle and local graph may
+   * return additional fields like `bridges` and `mutual`. `blockedBy` is set
+   * when negative signals block the target.
    */
+  getDetails(target: string, options: MetaQueryOptions): Promise<WithMeta<DistanceResult | null>>;
+  getDetails(target: string, options?: QueryOptions): Promise<DistanceResult | null>;
   async getDetails(
     target: string,
     options?: QueryOptions
+  ): Promise<DistanceResult | null | WithMeta<DistanceResult | null>> {
+    if (options?.withMeta) {
+      return this.withMeta(options, null, (o) => this.getDetails(target, o));
+    }
+
+    const normalizedTarget = await this.resolvePubkeyParam(target, 'target', options?.signal);
+    const query = await this.buildQuery(options);
+
+    // Plain cached details have no sources - hybrid queries fetch again
+    const cached = this.fromCache<DistanceResult | null>('details', query, normalizedTarget);
+    const hybrid = options?.hybrid ?? this.hybrid;
+    const details =
+      cached !== undefined && (!hybrid || cached === null || cached.sources)
+        ? cached
+        : await this.fetchDetails(normalizedTarget, query, options);
+    if (!details) return null;
+
+    const summary = await this.getSignalSummary(normalizedTarget, query, options);
+    if (!summary) return details;
+
+    return summary.blockedBy
+      ? { ...details, score: 0, blockedBy: summary.blockedBy }
+      : { ...details, score: penalize(details.score, summary) };
+  }
+
+  /**
+   * Fetches details from the backends (no signals applied)
+   */
+  private fetchDetails(
+    normalizedTarget: string,
+    query: BackendQuery,
+    options?: QueryOptions
   ): Promise<DistanceResult | null> {
-    const normalizedTarget = this.validatePubkey(target, 'target');
+    const hybrid = options?.hybrid ?? this.hybrid;
+    return this.coalesce(
+      this.requestKey(hybrid ? 'getDetails:hybrid' : 'getDetails', query, normalizedTarget, options),
+      query,
+      async (shared) => {
+        const routed = await this.route(
+          (b) => has(b, 'getDetails'),
+          (b, q) => b.getDetails!(normalizedTarget, q),
+          options,
+          shared
+        );
+        if (!routed) {
+          throw new WoTError('No available backend can answer getDetails');
+        }
 
-    // Check extension first - extension always takes priority
-    const ext = await this.getExtension();
-    if (ext) {
-      return ext.getDetails(normalizedTarget);
-    }
+        const details =
+          hybrid && routed.value
+            ? await this.completeDetails(normalizedTarget, routed.value, routed.backend, shared, options)
+            : routed.value;
+        this.cacheDetails(shared, normalizedTarget, details);
+        return details;
+      }
+    );
+  }
 
-    // Fall back to oracle
-    const myPubkey = await this.getEffectivePubkey();
-    const maxHops = options?.maxHops ?? this.maxHops;
+  /**
+   * Fills in the `bridges` and `mutual` fields a backend did not return
+   * (the extension) and tags every field with its source
+   *
+   * Missing fields come from the next backend that answers getDetails
+   * (oracle or local graph). If none can, `mutual` is derived from the
+   * target's follow list, and `bridges` up to 2 hops: empty for direct
+   * follows, your follows among the target's followers at 2 hops (up to
+   * MAX_BRIDGE_PAGES pages). Bridges of targets further away are left out.
+   */
+  private async completeDetails(
+    normalizedTarget: string,
+    details: DistanceResult,
+    backend: WoTBackend,
+    query: BackendQuery,
+    options?: QueryOptions
+  ): Promise<DistanceResult> {
+    const sources: NonNullable<DistanceResult['sources']> = {
+      hops: backend.kind,
+      paths: backend.kind,
+      score: backend.kind,
+    };
+    if (details.bridges !== undefined) sources.bridges = backend.kind;
+    if (details.mutual !== undefined) sources.mutual = backend.kind;
+
+    const complete: DistanceResult = { ...details, sources };
+    const missing = () => complete.bridges === undefined || complete.mutual === undefined;
+    if (!missing()) return complete;
+
+    // Enrichment is best effort - a failing backend only leaves fields out
+    const tryRoute = async <T>(
+      supports: (b: WoTBackend) => boolean,
+      call: (b: WoTBackend, q: BackendQuery) => Promise<T>
+    ): Promise<Routed<T> | null> => {
+      try {
+        return await this.route(supports, call, options, query);
+      } catch (error) {
+        if (error instanceof AbortError) throw error;
+        return null;
+      }
+    };
 
-    interface DetailsResponse {
-      hops: number;
-      paths: number;
-      bridges?: string[];
-      mutual?: boolean;
+    const other = await tryRoute(
+      (b) => b !== backend && has(b, 'getDetails'),
+      (b, q) => b.getDetails!(normalizedTarget, q)
+    );
+    if (other?.value) {
+      if (complete.bridges === undefined && other.value.bridges !== undefined) {
+        complete.bridges = other.value.bridges;
+        sources.bridges = other.backend.kind;
+      }
+      if (complete.mutual === undefined && other.value.mutual !== undefined) {
+        complete.mutual = other.value.mutual;
+        sources.mutual = other.backend.kind;
+      }
+      if (!missing()) return complete;
     }
 
-    try {
-      const response = await this.apiRequest<DetailsResponse>(
-        `/details/${myPubkey}/${normalizedTarget}?maxHops=${maxHops}`,
-        options
+    if (complete.bridges === undefined && details.hops < 2) {
+      complete.bridges = [];
+      sources.bridges = 'derived';
+    }
+    if (complete.bridges === undefined && details.hops === 2) {
+      // Followers within 1 hop are your follows - all pages from one backend
+      const bridges = new Set<string>();
+      const cursors = new Set<string>();
+      const followers: FollowersQuery = {
+        withinHops: 1,
+        limit: MAX_FOLLOWERS_LIMIT,
+        cursor: null,
+      };
+      let pager: WoTBackend | null = null;
+      let finished = false;
+
+      // Backends that keep paging or repeat a cursor leave bridges out
+      for (let pages = 0; pages < MAX_BRIDGE_PAGES; pages++) {
+        const page: Routed<FollowersPage> | null = await tryRoute(
+          (b) => (pager ? b === pager : has(b, 'getFollowers')),
+          (b, q) => b.getFollowers!(normalizedTarget, followers, q)
+        );
+        if (!page) break;
+        pager = page.backend;
+        for (const pubkey of page.value.pubkeys) bridges.add(pubkey);
+
+        const { nextCursor, total } = page.value;
+        if (nextCursor === null || bridges.size >= total) {
+          finished = true;
+          break;
+        }
+        if (cursors.has(nextCursor)) break;
+        cursors.add(nextCursor);
+        followers.cursor = nextCursor;
+      }
+
+      if (finished) {
+        complete.bridges = Array.from(bridges);
+        sources.bridges = 'derived';
+      }
+    }
+    if (complete.mutual === undefined) {
+      const follows = await tryRoute(
+        (b) => has(b, 'getFollows'),
+        (b, q) => b.getFollows!(normalizedTarget, q)
       );
-      // Oracle doesn't return score, so default to 0
-      return { ...response, score: 0 };
-    } catch (error) {
-      if (error instanceof NotFoundError) {
-        return null;
+      if (follows) {
+        complete.mutual = follows.value.includes(query.root);
+        sources.mutual = 'derived';
       }
-      throw error;
     }
+    return complete;
   }
 
   /**
@@ -483,6 +1761,84 @@ export class WoT {
     return this.getEffectivePubkey();
   }
 
+  /**
+   * Get a view of this instance with every query rooted at another pubkey
+   *
+   * The view has the full query API and shares this instance's cache,
+   * signals and transport. The extension only answers for its own user,
+   * so views ask it for distances only (via getDistanceBetween) - scores,
+   * details and graph queries come from the oracle or a local graph.
+   *
+   * @param root - Root pubkey (hex, npub, nprofile or NIP-05)
+   * @returns WoT view rooted at `root`
+   *
+   * @example
+   * ```ts
+   * const admin = wot.as('npub1admin...');
+   * const members = await admin.filterByWoT(candidates);
+   * ```
+   */
+  as(root: string): WoT {
+    const trimmed = typeof root === 'string' ? root.trim() : '';
+    const scopedRoot = isNip05Identifier(trimmed)
+      ? trimmed
+      : this.validatePubkey(root, 'root');
+
+    const backends: WoTBackend[] = [];
+    for (const backend of this.backends) {
+      if (!backend.fixedRoot) {
+        backends.push(backend);
+      } else if (backend.getDistanceBetween) {
+        backends.push(new RerootedBackend(backend));
+      }
+    }
+
+    // Same state, different root and backends
+    const view: WoT = Object.create(WoT.prototype);
+    return Object.assign(view, this, {
+      scopedRoot,
+      backends,
+      // Shared requests and batches run on the backends of their instance
+      inflight: new Map(),
+      loaders: new Map(),
+      // Views have their own listeners and change detection
+      events: new Emitter<WoTEventMap>(),
+      observed: {},
+      polling: null,
+      stopWatch: null,
+    });
+  }
+
+  /**
+   * Resolve an identifier to a hex pubkey
+   * @param identifier - Hex pubkey, npub, nprofile or NIP-05 identifier
+   * @param options - Signal to abort the NIP-05 lookup
+   * @returns Lowercase hex pubkey
+   * @throws ValidationError for unsupported formats, NotFoundError for unknown NIP-05 names
+   */
+  async resolvePubkey(
+    identifier: string,
+    options?: Pick<QueryOptions, 'signal'>
+  ): Promise<string> {
+    return this.resolvePubkeyParam(identifier, 'identifier', options?.signal);
+  }
+
+  /**
+   * Resolve several identifiers to hex pubkeys, within the `concurrency` limit
+   * @param identifiers - Hex pubkeys, npubs, nprofiles or NIP-05 identifiers
+   * @param options - Signal to abort the NIP-05 lookups
+   * @returns Lowercase hex pubkeys, in input order
+   * @throws ValidationError for unsupported formats, NotFoundError for unknown NIP-05 names
+   */
+  async resolvePubkeys(
+    identifiers: string[],
+    options?: Pick<QueryOptions, 'signal'>
+  ): Promise<string[]> {
+    return this.limiter.map(identifiers, (identifier, i) =>
+      this.resolvePubkeyParam(identifier, `identifiers[${i}]`, options?.signal)
+    );
+  }
+
   /**
    * Get the current oracle URL
    */
@@ -490,12 +1846,19 @@ export class WoT {
     return this.oracle;
   }
 
+  /**
+   * Get the configured backends in priority order
+   */
+  getBackends(): WoTBackend[] {
+    return [...this.backends];
+  }
+
   /**
    * Check if extension is available and being used
    */
   async isUsingExtension(): Promise<boolean> {
-    const ext = await this.getExtension();
-    return ext !== null;
+    if (!this.extension) return false;
+    return this.extension.isAvailable();
   }
 
   /**
@@ -517,9 +1880,14 @@ export class WoT {
     // Try to detect if extension is installed via web_accessible_resources
     if (this.extensionId) {
       try {
-        const response = await fetch(
+        const response = await fetchWithTimeout(
           `chrome-extension://${this.extensionId}/detect.json`,
-          { method: 'HEAD' }
+          {
+            method: 'HEAD',
+            timeout: this.timeout,
+            fetch: this.fetch,
+            interceptors: this.interceptors,
+          }
         );
         if (response.ok) {
           return 'not-enabled'; // Installed but not enabled for this domain
@@ -534,13 +1902,211 @@ export class WoT {
 
   /**
    * Get extension configuration (only available when using extension)
-   * @returns Extension config or null if not using extension
+   * @returns Extension config, or null if not using extension or it cannot report one
    */
   async getExtensionConfig(): Promise<ExtensionConfig | null> {
-    const ext = await this.getExtension();
-    if (!ext) return null;
+    if (!this.extension?.getCapabilities()?.methods.includes('getConfig')) return null;
+
+    return this.extension.call('getConfig', { timeout: this.timeout }, (ext) => ext.getConfig());
+  }
+
+  /**
+   * Get the version and methods of the installed extension build
+   * Methods an older build lacks are answered by the next backend
+   * (batch methods are emulated with single calls).
+   * @returns Capabilities, or null if the extension is not available
+   */
+  async getCapabilities(): Promise<ExtensionCapabilities | null> {
+    return this.extension?.getCapabilities() ?? null;
+  }
+
+  // ============================================
+  // Events and account switching
+  // ============================================
+
+  /**
+   * Subscribe to an event
+   *
+   * While at least one listener is subscribed, the extension, active
+   * pubkey, answering backend and graph sync are polled on an interval
+   * and on window focus (see the `watch` option).
+   *
+   * @param name - Event name
+   * @param listener - Called with the event payload
+   * @returns Function that unsubscribes the listener
+   *
+   * @example
+   * ```ts
+   * wot.on('extension:connected', () => console.log('Extension ready'));
+   * wot.on('graph:synced', ({ stats }) => console.log(stats.lastSync));
+   * ```
+   */
+  on<K extends WoTEventName>(name: K, listener: WoTEventListener<K>): () => void {
+    if (this.events.on(name, listener) && this.events.listenerCount() === 1) {
+      this.startWatch();
+    }
+    return () => this.off(name, listener);
+  }
+
+  /**
+   * Unsubscribe from an event
+   */
+  off<K extends WoTEventName>(name: K, listener: WoTEventListener<K>): void {
+    if (this.events.off(name, listener) && this.events.listenerCount() === 0) {
+      this.stopWatch?.();
+      this.stopWatch = null;
+    }
+  }
+
+  /**
+   * Subscribe to active pubkey changes (account switches)
+   * Shorthand for `on('pubkey:changed', ...)`.
+   * @param listener - Called with the new and previous pubkey
+   * @returns Function that unsubscribes the listener
+   */
+  onPubkeyChange(listener: PubkeyChangeListener): () => void {
+    return this.on('pubkey:changed', ({ pubkey, previous }) => listener(pubkey, previous));
+  }
+
+  /**
+   * Check the extension, active pubkey, answering backend and graph sync
+   * now, emitting events for anything that changed
+   * Concurrent calls share one check.
+   */
+  refresh(): Promise<void> {
+    this.polling ??= this.poll().finally(() => {
+      this.polling = null;
+    });
+    return this.polling;
+  }
+
+  /**
+   * Switch the pubkey used when no backend provides one (replaces myPubkey)
+   * The extension's pubkey still wins while the extension is available.
+   * @param pubkey - Pubkey (hex, npub or nprofile), or null to clear it
+   * @returns Active pubkey after the switch, or null if none is available
+   */
+  async setPubkey(pubkey: string | null): Promise<string | null> {
+    const normalized = pubkey === null ? null : this.validatePubkey(pubkey, 'pubkey');
+
+    // Record the current pubkey first so the switch is reported
+    if (this.observed.pubkey === undefined) await this.checkPubkey();
+
+    this.fallbackPubkey = normalized;
+    return this.checkPubkey();
+  }
+
+  /**
+   * Re-read the active pubkey and emit `pubkey:changed` if it changed
+   * Asks the extension again instead of reusing its cached pubkey.
+   * Cached results rooted at the previous pubkey are dropped on change.
+   * @returns Active pubkey, or null if none is available
+   */
+  async checkPubkey(): Promise<string | null> {
+    this.extension?.resetPubkey();
+
+    let pubkey: string | null;
+    try {
+      pubkey = await this.getEffectivePubkey();
+    } catch {
+      pubkey = null;
+    }
+
+    const previous = this.observed.pubkey;
+    this.observed.pubkey = pubkey;
+    if (previous === undefined || previous === pubkey) return pubkey;
+
+    if (previous) this.invalidateRoot(previous);
+    this.events.emit('pubkey:changed', { pubkey, previous });
+    return pubkey;
+  }
+
+  /**
+   * Runs every check, emitting events for changes
+   */
+  private async poll(): Promise<void> {
+    if (this.extension) {
+      const connected = await this.isAvailable(this.extension);
+      const previous = this.observed.extension;
+      this.observed.extension = connected;
+      if (previous !== undefined && previous !== connected) {
+        this.events.emit(connected ? 'extension:connected' : 'extension:disconnected', {});
+      }
+    }
+
+    await this.checkPubkey();
+
+    let backend: WoTBackend | null = null;
+    for (const candidate of this.backends) {
+      if (await this.isAvailable(candidate)) {
+        backend = candidate;
+        break;
+      }
+    }
+    const previousBackend = this.observed.backend;
+    this.observed.backend = backend;
+    if (previousBackend !== undefined && previousBackend !== backend) {
+      // Sync times of different backends are not comparable
+      this.observed.lastSync = undefined;
+      this.events.emit('source:changed', { backend, previous: previousBackend });
+    }
+
+    // Stats can be expensive - only read them for graph:synced listeners
+    if (this.events.listenerCount('graph:synced') > 0) {
+      let stats: GraphStats | null = null;
+      try {
+        stats = await this.getStats();
+      } catch {
+        // Ignore - retried on the next poll
+      }
+      if (stats) {
+        const previousSync = this.observed.lastSync;
+        this.observed.lastSync = stats.lastSync;
+        if (
+          previousSync !== undefined &&
+          stats.lastSync !== null &&
+          stats.lastSync !== previousSync
+        ) {
+          this.events.emit('graph:synced', { stats });
+        }
+      }
+    }
+  }
+
+  /**
+   * Starts interval and focus polling
+   */
+  private startWatch(): void {
+    const check = () => {
+      this.refresh();
+    };
+
+    // Record the current state so the first change is detected
+    check();
+    if (!this.watch) return;
+
+    const { interval, focus } = this.watch;
+    const timer = interval > 0 ? setInterval(check, interval) : null;
+    const target =
+      focus && typeof window !== 'undefined' && typeof window.addEventListener === 'function'
+        ? window
+        : null;
+    target?.addEventListener('focus', check);
+
+    this.stopWatch = () => {
+      if (timer) clearInterval(timer);
+      target?.removeEventListener('focus', check);
+    };
+  }
 
-    return ext.getConfig();
+  /**
+   * Drops cached results and batch loaders rooted at a pubkey
+   */
+  private invalidateRoot(root: string): void {
+    this.cache?.deleteWhere((key) => key.split('|')[1] === root);
+    for (const key of Array.from(this.loaders.keys())) {
+      if (key.split('|')[1] === root) this.loaders.delete(key);
+    }
   }
 
   // ============================================
@@ -550,21 +2116,22 @@ export class WoT {
   /**
    * Check if the extension is configured and ready
    * @returns Status object with configuration state, or null if not using extension
+   *   or it cannot report one
    */
   async isConfigured(): Promise<ExtensionStatus | null> {
-    const ext = await this.getExtension();
-    if (!ext) return null;
+    if (!this.extension?.getCapabilities()?.methods.includes('isConfigured')) return null;
 
-    return ext.isConfigured();
+    return this.extension.call('isConfigured', { timeout: this.timeout }, (ext) => ext.isConfigured());
   }
 
   /**
    * Filter a list of pubkeys to only those within the Web of Trust
-   * @param pubkeys - Array of pubkeys to filter
+   * @param pubkeys - Array of pubkeys to filter (hex, npub, nprofile or NIP-05)
    * @param options - Query options (maxHops)
-   * @returns Filtered array of pubkeys within WoT
+   * @returns Filtered array of hex pubkeys within WoT (invalid input is skipped)
    *
-   * Note: Extension-only. Falls back to batchCheck when extension unavailable.
+   * Note: Uses the backend's native filterByWoT when available (extension),
+   * otherwise falls back to a batch check.
    */
   async filterByWoT(
     pubkeys: string[],
@@ -574,92 +2141,240 @@ export class WoT {
       return [];
     }
 
-    const normalizedPubkeys = pubkeys
-      .filter((pk) => isValidPubkey(pk))
-      .map((pk) => normalizePubkey(pk));
+    // Invalid and unresolvable identifiers are skipped
+    const resolved = await this.limiter.map(pubkeys, (pk, i) =>
+      this.resolvePubkeyParam(pk, `pubkeys[${i}]`, options?.signal).catch((error) => {
+        // Invalid input is skipped, an abort is not
+        if (error instanceof AbortError) throw error;
+        return null;
+      })
+    );
+    const normalizedPubkeys = resolved.filter((pk): pk is string => pk !== null);
 
-    const maxHops = options?.maxHops ?? this.maxHops;
+    if (normalizedPubkeys.length === 0) {
+      return [];
+    }
 
-    // Check extension first - extension has native filterByWoT
-    const ext = await this.getExtension();
-    if (ext) {
-      return ext.filterByWoT(normalizedPubkeys, maxHops);
+    // Thresholds need scores and path details - use the batch path
+    if (hasThresholds(options)) {
+      const results = await this.batchCheck(normalizedPubkeys, { ...options, withMeta: false });
+      return normalizedPubkeys.filter((pubkey) => results.get(pubkey)?.inWoT);
     }
 
-    // Fall back to batchCheck
-    const results = await this.batchCheck(normalizedPubkeys, options);
-    return Array.from(results.entries())
-      .filter(([, result]) => result.inWoT)
-      .map(([pubkey]) => pubkey);
+    const query = await this.buildQuery(options);
+    const filtered = await this.routeRequired(
+      'filterByWoT',
+      (b) => has(b, 'filterByWoT') || canBatch(b),
+      async (b, q) => {
+        if (has(b, 'filterByWoT')) {
+          return b.filterByWoT!(normalizedPubkeys, q);
+        }
+
+        // Fall back to batch distances - no scores needed
+        const distances = await this.distanceBatchWith(b, normalizedPubkeys, {}, q);
+        return normalizedPubkeys.filter((pubkey) => {
+          const distance = hopsOf(distances[pubkey]);
+          return distance !== null && distance <= q.maxHops;
+        });
+      },
+      options,
+      query
+    );
+
+    const signals = await this.getSignalSummaries(filtered, query, options);
+    return filtered.filter((pubkey) => !signals.get(pubkey)?.blockedBy);
   }
 
   /**
    * Get the follow list for a pubkey
-   * @param pubkey - Optional, defaults to user's pubkey
+   * @param pubkey - Optional (hex, npub, nprofile or NIP-05), defaults to user's pubkey
+   * @param options - Query options
    * @returns Array of followed pubkeys
    *
-   * Note: Extension-only. Returns empty array if extension unavailable.
+   * Note: Requires the extension or a local graph. Returns empty array otherwise.
+   */
+  async getFollows(pubkey?: string, options?: QueryOptions): Promise<string[]> {
+    const normalizedPubkey = pubkey
+      ? await this.resolvePubkeyParam(pubkey, 'pubkey', options?.signal)
+      : undefined;
+
+    const routed = await this.route(
+      (b) => has(b, 'getFollows'),
+      (b, query) => b.getFollows!(normalizedPubkey ?? query.root, query),
+      options
+    );
+    return routed?.value ?? [];
+  }
+
+  /**
+   * Get one page of the pubkeys that follow a pubkey
+   * @param pubkey - Pubkey (hex, npub, nprofile or NIP-05)
+   * @param options - Query options plus `withinHops`, `limit` and `cursor`
+   * @returns Followers closest to you first, the total count and the next page's cursor
+   *
+   * Note: Answered by a local graph or the oracle.
+   *
+   * @example
+   * ```ts
+   * let page = await wot.getFollowers('def456...', { withinHops: 2 });
+   * while (page.nextCursor) {
+   *   page = await wot.getFollowers('def456...', { withinHops: 2, cursor: page.nextCursor });
+   * }
+   * ```
    */
-  async getFollows(pubkey?: string): Promise<string[]> {
-    const ext = await this.getExtension();
-    if (!ext) return [];
+  async getFollowers(pubkey: string, options: FollowersOptions = {}): Promise<FollowersPage> {
+    const normalizedPubkey = await this.resolvePubkeyParam(pubkey, 'pubkey', options?.signal);
+
+    const limit = options.limit ?? DEFAULT_FOLLOWERS_LIMIT;
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_FOLLOWERS_LIMIT) {
+      throw new ValidationError(
+        `limit must be an integer between 1 and ${MAX_FOLLOWERS_LIMIT}`,
+        'limit'
+      );
+    }
+
+    const { withinHops } = options;
+    if (withinHops !== undefined && (!Number.isInteger(withinHops) || withinHops < 1)) {
+      throw new ValidationError('withinHops must be a positive integer', 'withinHops');
+    }
+
+    const followers: FollowersQuery = {
+      withinHops: withinHops ?? null,
+      limit,
+      cursor: options.cursor ?? null,
+    };
+
+    return this.routeRequired(
+      'getFollowers',
+      (b) => has(b, 'getFollowers'),
+      (b, query) => b.getFollowers!(normalizedPubkey, followers, query),
+      options
+    );
+  }
 
-    const normalizedPubkey = pubkey ? this.validatePubkey(pubkey, 'pubkey') : undefined;
-    return ext.getFollows(normalizedPubkey);
+  /**
+   * Get one page of the pubkeys in your WoT that follow a pubkey
+   * Same as getFollowers with `withinHops` set to `maxHops`.
+   * @param pubkey - Pubkey (hex, npub, nprofile or NIP-05)
+   * @param options - Query options plus `limit` and `cursor`
+   *
+   * @example
+   * ```ts
+   * const { pubkeys, total } = await wot.getTrustedFollowers('def456...', { limit: 2 });
+   * // "Followed by alice, bob and 12 others you trust"
+   * ```
+   */
+  async getTrustedFollowers(
+    pubkey: string,
+    options: Omit<FollowersOptions, 'withinHops'> = {}
+  ): Promise<FollowersPage> {
+    return this.getFollowers(pubkey, {
+      ...options,
+      withinHops: options.maxHops ?? this.maxHops,
+    });
   }
 
   /**
    * Get mutual follows between the user and a target
-   * @param pubkey - Target pubkey
+   * @param pubkey - Target pubkey (hex, npub, nprofile or NIP-05)
+   * @param options - Query options
    * @returns Array of common followed pubkeys
    *
-   * Note: Extension-only. Returns empty array if extension unavailable.
+   * Note: Requires the extension or a local graph. Returns empty array otherwise.
    */
-  async getCommonFollows(pubkey: string): Promise<string[]> {
-    const ext = await this.getExtension();
-    if (!ext) return [];
+  async getCommonFollows(pubkey: string, options?: QueryOptions): Promise<string[]> {
+    const normalizedPubkey = await this.resolvePubkeyParam(pubkey, 'pubkey', options?.signal);
 
-    const normalizedPubkey = this.validatePubkey(pubkey, 'pubkey');
-    return ext.getCommonFollows(normalizedPubkey);
+    const routed = await this.route(
+      (b) => has(b, 'getCommonFollows'),
+      (b, query) => b.getCommonFollows!(normalizedPubkey, query),
+      options
+    );
+    return routed?.value ?? [];
   }
 
   /**
    * Get graph statistics
+   * @param options - Query options
    * @returns Stats object with node/edge counts and sync info
    *
-   * Note: Extension-only. Returns null if extension unavailable.
+   * Note: Requires the extension or a local graph. Returns null otherwise.
    */
-  async getStats(): Promise<GraphStats | null> {
-    const ext = await this.getExtension();
-    if (!ext) return null;
-
-    return ext.getStats();
+  async getStats(options?: QueryOptions): Promise<GraphStats | null> {
+    const routed = await this.route(
+      (b) => has(b, 'getStats'),
+      (b, query) => b.getStats!(query),
+      options
+    );
+    return routed?.value ?? null;
   }
 
   /**
    * Get an actual path from the user to the target
-   * @param target - Target pubkey
+   * @param target - Target pubkey (hex, npub, nprofile or NIP-05)
+   * @param options - Query options
    * @returns Array of pubkeys [user, ..., target], or null if not connected
    *
-   * Note: Extension-only. Returns null if extension unavailable.
+   * Note: Requires the extension or a local graph. Returns null otherwise.
+   */
+  async getPath(target: string, options?: QueryOptions): Promise<string[] | null> {
+    const normalizedTarget = await this.resolvePubkeyParam(target, 'target', options?.signal);
+
+    const routed = await this.route(
+      (b) => has(b, 'getPath'),
+      (b, query) => b.getPath!(normalizedTarget, query),
+      options
+    );
+    return routed?.value ?? null;
+  }
+
+  /**
+   * Get up to `limit` distinct paths from the user to the target
+   * @param target - Target pubkey (hex, npub, nprofile or NIP-05)
+   * @param options - Query options plus `limit` and `disjoint`
+   * @returns Arrays of pubkeys [user, ..., target], shortest first (empty if not connected)
+   *
+   * With `disjoint: true`, paths share no intermediate pubkeys - use it to
+   * see whether trust flows through one gatekeeper or many independent people.
+   *
+   * Note: Answered by a local graph or the oracle. Backends that only
+   * support getPath (the extension) return at most one path.
    */
-  async getPath(target: string): Promise<string[] | null> {
-    const ext = await this.getExtension();
-    if (!ext) return null;
+  async getPaths(target: string, options: PathOptions = {}): Promise<string[][]> {
+    const normalizedTarget = await this.resolvePubkeyParam(target, 'target', options?.signal);
 
-    const normalizedTarget = this.validatePubkey(target, 'target');
-    return ext.getPath(normalizedTarget);
+    const limit = options.limit ?? DEFAULT_PATH_LIMIT;
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PATH_LIMIT) {
+      throw new ValidationError(
+        `limit must be an integer between 1 and ${MAX_PATH_LIMIT}`,
+        'limit'
+      );
+    }
+    const paths: PathQuery = { limit, disjoint: options.disjoint ?? false };
+
+    return this.routeRequired(
+      'getPaths',
+      (b) => has(b, 'getPaths') || has(b, 'getPath'),
+      async (b, query) => {
+        if (has(b, 'getPaths')) {
+          return b.getPaths!(normalizedTarget, paths, query);
+        }
+        const path = await b.getPath!(normalizedTarget, query);
+        return path && path.length - 1 <= query.maxHops ? [path] : [];
+      },
+      options
+    );
   }
 
   /**
    * Get distances for multiple pubkeys in a single call
-   * @param targets - Array of target pubkeys
+   * @param targets - Array of target pubkeys (hex, npub, nprofile or NIP-05)
    * @param options - Options object or boolean for backwards compatibility
    *   - `{ includePaths: true }` - Include path counts
    *   - `{ includeScores: true }` - Include trust scores
    *   - `{ includePaths: true, includeScores: true }` - Include both
    *   - `true` (legacy) - Same as `{ includePaths: true }`
-   * @returns Record of pubkey to result based on options
+   * @returns Record of hex pubkey to result based on options
    */
   async getDistanceBatch(
     targets: string[],
@@ -689,83 +2404,428 @@ export class WoT {
       return {};
     }
 
-    const normalizedTargets = targets.map((t, i) =>
-      this.validatePubkey(t, `targets[${i}]`)
-    );
-
     // Normalize options: boolean `true` means { includePaths: true }
     const opts: DistanceBatchOptions =
       typeof options === 'boolean'
         ? { includePaths: options }
         : options || {};
 
-    const { includePaths, includeScores } = opts;
+    const { includePaths, includeScores, signal } = opts;
+    const normalizedTargets = await this.limiter.map(targets, (t, i) =>
+      this.resolvePubkeyParam(t, `targets[${i}]`, signal)
+    );
+    const query = await this.buildQuery({ signal });
+
+    // Serve cached entries, fetch only the rest
+    const results: Record<string, number | { hops: number; paths?: number; score?: number } | null> = {};
+    const missing: string[] = [];
+    for (const pubkey of unique(normalizedTargets)) {
+      const cached = this.batchEntryFromCache(query, pubkey, opts);
+      if (cached !== undefined) {
+        results[pubkey] = cached;
+      } else {
+        missing.push(pubkey);
+      }
+    }
+    if (missing.length === 0) return results;
+
+    const fetched = await this.routeRequired(
+      'getDistanceBatch',
+      (b) => has(b, 'getDistanceBatch') || has(b, 'getDetails') || has(b, 'getDistance'),
+      (b, q) => this.distanceBatchWith(b, missing, opts, q),
+      { signal },
+      query
+    );
+
+    for (const pubkey of missing) {
+      const entry = fetched[pubkey] ?? null;
+      results[pubkey] = entry;
+
+      if (entry === null || typeof entry === 'number') {
+        this.toCache('distance', query, pubkey, entry);
+        if (entry === null && includeScores) this.toCache('score', query, pubkey, null);
+        continue;
+      }
+      this.toCache('distance', query, pubkey, entry.hops);
+      if (includePaths && entry.paths !== undefined) this.toCache('paths', query, pubkey, entry.paths);
+      if (includeScores && entry.score !== undefined) this.toCache('score', query, pubkey, entry.score);
+    }
+
+    return results;
+  }
+
+  /**
+   * Builds a getDistanceBatch entry from cached results
+   * @returns Entry, or undefined if any requested field is not cached
+   */
+  private batchEntryFromCache(
+    query: BackendQuery,
+    pubkey: string,
+    opts: DistanceBatchOptions
+  ): number | { hops: number; paths?: number; score?: number } | null | undefined {
+    const distance = this.fromCache<number | null>('distance', query, pubkey);
+    if (distance === undefined) return undefined;
+    if (distance === null) return null;
+    if (!opts.includePaths && !opts.includeScores) return distance;
+
+    const entry: { hops: number; paths?: number; score?: number } = { hops: distance };
+    if (opts.includePaths) {
+      const paths = this.fromCache<number>('paths', query, pubkey);
+      if (paths === undefined) return undefined;
+      entry.paths = paths;
+    }
+    if (opts.includeScores) {
+      const score = this.fromCache<number | null>('score', query, pubkey);
+      if (score === undefined) return undefined;
+      entry.score = score ?? 0;
+    }
+    return entry;
+  }
 
-    // Check extension first
-    const ext = await this.getExtension();
-    if (ext) {
-      return ext.getDistanceBatch(normalizedTargets, opts);
+  /**
+   * Runs a batch distance lookup against a single backend
+   * Emulates the batch with single calls when the backend has no batch method.
+   */
+  private async distanceBatchWith(
+    backend: WoTBackend,
+    targets: string[],
+    opts: DistanceBatchOptions,
+    query: BackendQuery
+  ): Promise<Record<string, number | { hops: number; paths?: number; score?: number } | null>> {
+    if (has(backend, 'getDistanceBatch')) {
+      return backend.getDistanceBatch!(targets, opts, query);
     }
 
-    // Fall back to individual queries
-    if (includePaths || includeScores) {
+    const { includePaths, includeScores } = opts;
+
+    // Fall back to individual queries, at most `concurrency` at once
+    if ((includePaths || includeScores) && has(backend, 'getDetails')) {
+      const getDetails = backend.getDetails!.bind(backend);
       const results: Record<string, { hops: number; paths?: number; score?: number } | null> = {};
-      await Promise.all(
-        normalizedTargets.map(async (pubkey) => {
-          const details = await this.getDetails(pubkey);
-          if (!details) {
-            results[pubkey] = null;
-            return;
-          }
-          const result: { hops: number; paths?: number; score?: number } = { hops: details.hops };
-          if (includePaths) result.paths = details.paths;
-          if (includeScores) result.score = details.score;
-          results[pubkey] = result;
-        })
-      );
+      await this.limiter.map(targets, async (pubkey) => {
+        const details = await getDetails(pubkey, query);
+        if (!details) {
+          results[pubkey] = null;
+          return;
+        }
+        const result: { hops: number; paths?: number; score?: number } = { hops: details.hops };
+        if (includePaths) result.paths = details.paths;
+        if (includeScores) result.score = details.score;
+        results[pubkey] = result;
+      });
       return results;
     }
 
+    const getDistance = backend.getDistance!.bind(backend);
     const results: Record<string, number | null> = {};
-    await Promise.all(
-      normalizedTargets.map(async (pubkey) => {
-        results[pubkey] = await this.getDistance(pubkey);
-      })
-    );
+    await this.limiter.map(targets, async (pubkey) => {
+      results[pubkey] = await getDistance(pubkey, query);
+    });
     return results;
   }
 
   /**
    * Get trust scores for multiple pubkeys in a single call
-   * @param targets - Array of target pubkeys
-   * @returns Record of pubkey to trust score (null if not connected)
+   * @param targets - Array of target pubkeys (hex, npub, nprofile or NIP-05)
+   * @param options - Query options (maxHops, algorithm)
+   * @returns Record of hex pubkey to trust score (null if not connected)
    */
   async getTrustScoreBatch(
-    targets: string[]
+    targets: string[],
+    options?: QueryOptions
   ): Promise<Record<string, number | null>> {
     if (!Array.isArray(targets) || targets.length === 0) {
       return {};
     }
 
-    const normalizedTargets = targets.map((t, i) =>
-      this.validatePubkey(t, `targets[${i}]`)
+    const normalizedTargets = await this.limiter.map(targets, (t, i) =>
+      this.resolvePubkeyParam(t, `targets[${i}]`, options?.signal)
     );
 
-    // Check extension first
-    const ext = await this.getExtension();
-    if (ext) {
-      return ext.getTrustScoreBatch(normalizedTargets);
+    const query = await this.buildQuery(options);
+    const algorithm = options?.algorithm ?? this.algorithm;
+    const results =
+      algorithm === 'hop-decay'
+        ? await this.fetchTrustScores(normalizedTargets, query, options)
+        : await this.fetchRankScores(unique(normalizedTargets), algorithm, query, options);
+
+    const signals = await this.getSignalSummaries(normalizedTargets, query, options);
+    for (const [pubkey, summary] of signals) {
+      const score = results[pubkey];
+      if (score !== null && score !== undefined) {
+        results[pubkey] = penalize(score, summary);
+      }
     }
+    return results;
+  }
 
-    // Fall back to individual queries
+  /**
+   * Trust score batch without negative signals
+   * Serves cached entries and fetches only the rest.
+   */
+  private async fetchTrustScores(
+    normalizedTargets: string[],
+    query: BackendQuery,
+    options?: QueryOptions
+  ): Promise<Record<string, number | null>> {
+    // Serve cached entries, fetch only the rest
     const results: Record<string, number | null> = {};
-    await Promise.all(
-      normalizedTargets.map(async (pubkey) => {
-        const score = await this.getTrustScore(pubkey);
-        results[pubkey] = score > 0 ? score : null;
-      })
+    const missing: string[] = [];
+    for (const pubkey of unique(normalizedTargets)) {
+      const cached = this.fromCache<number | null>('score', query, pubkey);
+      if (cached !== undefined) {
+        results[pubkey] = cached;
+      } else {
+        missing.push(pubkey);
+      }
+    }
+    if (missing.length === 0) return results;
+
+    const routed = await this.route(
+      (b) => has(b, 'getTrustScoreBatch') || has(b, 'getTrustScore'),
+      (b, q) => this.trustScoreBatchWith(b, missing, q),
+      options,
+      query
     );
 
+    for (const pubkey of missing) {
+      // No backend can calculate trust scores - null without caching
+      const score = routed ? routed.value[pubkey] ?? null : null;
+      if (routed) this.toCache('score', query, pubkey, score);
+      results[pubkey] = score;
+    }
+    return results;
+  }
+
+  /**
+   * Runs a batch trust score lookup against a single backend
+   * Emulates the batch with single calls when the backend has no batch method.
+   */
+  private async trustScoreBatchWith(
+    backend: WoTBackend,
+    targets: string[],
+    query: BackendQuery
+  ): Promise<Record<string, number | null>> {
+    if (has(backend, 'getTrustScoreBatch')) {
+      return backend.getTrustScoreBatch!(targets, query);
+    }
+
+    const results: Record<string, number | null> = {};
+
+    // A native batchCheck (e.g. oracle /batch) also returns scores
+    if (has(backend, 'batchCheck')) {
+      const checked = await backend.batchCheck!(targets, query);
+      for (const pubkey of targets) {
+        const result = checked.get(pubkey);
+        results[pubkey] = result && result.distance !== null ? result.score : null;
+      }
+      return results;
+    }
+
+    if (!has(backend, 'getTrustScore')) {
+      for (const pubkey of targets) {
+        results[pubkey] = null;
+      }
+      return results;
+    }
+
+    const getTrustScore = backend.getTrustScore!.bind(backend);
+    await this.limiter.map(targets, async (pubkey) => {
+      results[pubkey] = await getTrustScore(pubkey, query);
+    });
     return results;
   }
+
+  // ============================================
+  // Negative signals
+  // ============================================
+
+  /**
+   * Ingest NIP-51 mute lists (kind 10000) and NIP-56 reports (kind 1984)
+   * Other kinds are ignored. Only signals from you and pubkeys within
+   * `signalPolicy.networkHops` count.
+   * @returns Number of events that changed the signal store
+   */
+  addSignals(events: Iterable<NostrEvent>): number {
+    return this.signals.addEvents(events);
+  }
+
+  /**
+   * Get the signal store (shared with other instances via the `signals` option)
+   */
+  getSignalStore(): SignalStore {
+    return this.signals;
+  }
+
+  /**
+   * Explain the negative signals counting against a target
+   * @param target - Target pubkey (hex, npub, nprofile or NIP-05)
+   * @param options - Query options
+   * @returns Counted mutes and reports, penalty and block reason
+   */
+  async getSignals(target: string, options?: QueryOptions): Promise<SignalSummary> {
+    const normalizedTarget = await this.resolvePubkeyParam(target, 'target', options?.signal);
+    const query = await this.buildQuery(options);
+
+    const summary = await this.getSignalSummary(normalizedTarget, query, options);
+    return summary ?? { mutedBy: [], reportedBy: [], penalty: 0, blockedBy: null };
+  }
+
+  /**
+   * Summarizes signals for a single target
+   * @returns Summary, or null if nobody muted or reported the target
+   */
+  private async getSignalSummary(
+    target: string,
+    query: BackendQuery,
+    options?: QueryOptions
+  ): Promise<SignalSummary | null> {
+    if (!this.signals.hasSignals(target)) return null;
+
+    const summaries = await this.getSignalSummaries([target], query, options);
+    return summaries.get(target) ?? null;
+  }
+
+  /**
+   * Summarizes signals for every target that has any
+   *
+   * Looks up the distance of all muting/reporting pubkeys in one batch
+   * (limited to `networkHops`) to decide whose signals count.
+   * @param fail - Collects failures instead of throwing them: a target
+   *   gets no summary when the lookup of one of its signal authors failed
+   */
+  private async getSignalSummaries(
+    targets: string[],
+    query: BackendQuery,
+    options?: QueryOptions,
+    fail?: FailPubkeys
+  ): Promise<Map<string, SignalSummary>> {
+    const summaries = new Map<string, SignalSummary>();
+    const flagged = unique(targets).filter((t) => this.signals.hasSignals(t));
+    if (flagged.length === 0) return summaries;
+
+    const policy = this.signalPolicy;
+    const authors = unique(
+      flagged.flatMap((t) => [
+        ...this.signals.getMutedBy(t),
+        ...this.signals.getReportedBy(t),
+      ])
+    ).filter((pubkey) => pubkey !== query.root);
+
+    const network = new Set<string>();
+    const failed = new Map<string, Error>();
+    if (authors.length > 0 && policy.networkHops > 0) {
+      const networkQuery = { ...query, maxHops: policy.networkHops };
+      const checked = await this.checkTargets(
+        authors,
+        networkQuery,
+        options,
+        fail ? failed : undefined
+      );
+      for (const [pubkey, result] of checked) {
+        if (result.inWoT) network.add(pubkey);
+      }
+    }
+
+    for (const target of flagged) {
+      // Whose signals count is unknown - the target cannot be judged
+      const author = [
+        ...this.signals.getMutedBy(target),
+        ...this.signals.getReportedBy(target),
+      ].find((pubkey) => failed.has(pubkey));
+      if (author !== undefined) {
+        fail!([target], failed.get(author));
+        continue;
+      }
+      summaries.set(target, this.signals.summarize(target, query.root, network, policy));
+    }
+    return summaries;
+  }
+
+  // ============================================
+  // Event filtering and ranking
+  // ============================================
+
+  /**
+   * Drop events whose author is outside the Web of Trust
+   * @param events - Nostr events (any kind)
+   * @param policy - Query options, including thresholds such as `minScore`
+   * @returns Kept events in input order, annotated with author distance and score
+   *
+   * Authors are looked up with one batch check. Events with a malformed
+   * author pubkey are dropped.
+   */
+  async filterEvents<E extends Pick<NostrEvent, 'pubkey' | 'created_at'>>(
+    events: E[],
+    policy: EventPolicy = {}
+  ): Promise<ScoredEvent<E>[]> {
+    const scored = await this.scoreEvents(events, policy);
+
+    return scored
+      .filter(({ result }) => result !== null && result.inWoT)
+      .map(({ scoredEvent }) => scoredEvent);
+  }
+
+  /**
+   * Sort events by author trust score (highest first)
+   * Ties are broken by `created_at`, newest first.
+   * @param events - Nostr events (any kind)
+   * @param options - Query options
+   * @returns All events, annotated with author distance and score
+   *
+   * Events from authors outside the WoT score 0 and sort last.
+   */
+  async rankEvents<E extends Pick<NostrEvent, 'pubkey' | 'created_at'>>(
+    events: E[],
+    options?: QueryOptions
+  ): Promise<ScoredEvent<E>[]> {
+    const scored = await this.scoreEvents(events, options);
+
+    return scored
+      .map(({ scoredEvent }) => scoredEvent)
+      .sort((a, b) => b.score - a.score || b.event.created_at - a.event.created_at);
+  }
+
+  /**
+   * Looks up every distinct event author with batch checks
+   * of up to MAX_BATCH_SIZE authors each
+   */
+  private async scoreEvents<E extends Pick<NostrEvent, 'pubkey'>>(
+    events: E[],
+    options?: QueryOptions
+  ): Promise<Array<{ scoredEvent: ScoredEvent<E>; result: BatchResult | null }>> {
+    if (!Array.isArray(events) || events.length === 0) {
+      return [];
+    }
+
+    const authors = events.map((event) =>
+      event && typeof event.pubkey === 'string' && isValidPubkey(event.pubkey)
+        ? normalizePubkey(event.pubkey)
+        : null
+    );
+    const distinct = unique(authors.filter((pk): pk is string => pk !== null));
+
+    const results = new Map<string, BatchResult>();
+    if (distinct.length > 0) {
+      const checkOptions: QueryOptions = { ...options, withMeta: false };
+      const query = await this.buildQuery(checkOptions);
+      for (const authorChunk of chunk(distinct, MAX_BATCH_SIZE)) {
+        const checked = await this.checkBatch(authorChunk, query, checkOptions);
+        for (const [pubkey, result] of checked) results.set(pubkey, result);
+      }
+    }
+
+    return events.map((event, i) => {
+      const author = authors[i];
+      const result = author !== null ? results.get(author) ?? null : null;
+      return {
+        scoredEvent: {
+          event,
+          distance: result?.distance ?? null,
+          score: result?.score ?? 0,
+        },
+        result,
+      };
+    });
+  }
 }